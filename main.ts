@@ -1,19 +1,78 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, ItemView, ViewStateResult } from 'obsidian';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, View, WorkspaceLeaf, ItemView, ViewStateResult, debounce, getAllTags, normalizePath, setIcon } from 'obsidian';
+import { EmbeddingProvider, EMBEDDING_PROVIDERS, LOCAL_PROVIDER_ID, getProviderDefinition, vectorSpaceId } from './src/providers';
+import { EmbeddingRateLimitError } from './src/rate-limiter';
+import { ChunkAggregation, cosineSimilarity, meanVector, scoreChunkMatches } from './src/similarity';
+import { ChunkEmbedding, EmbeddingCacheItem, EmbeddingStore, IndexedChunk, contentHash } from './src/embedding-store';
+import { VaultIndexer } from './src/indexer';
+import { NeighbourIndex } from './src/neighbour-index';
+import { LexicalIndex } from './src/lexical-index';
+import { RankingMode, RankingWeights, ScoreComponents, folderProximity, fuseScores, overlap } from './src/ranking';
+import { DEFAULT_CONCEPTS, Tokenizer, parseConceptMap } from './src/tokenizer';
+import { editorPassage, renderPassage } from './src/passages';
+import { renderExplanation } from './src/explain';
+import { SemanticSearchModal } from './src/search-modal';
+import { GraphColorBy, SEMANTIC_GRAPH_VIEW_TYPE, SemanticGraphView } from './src/graph-view';
+import { TopicClusterModal, findTopicClusters } from './src/topic-clusters';
+import { FileTypeOptions, contentMtime, displayName, fileIcon, fileKind, isIndexable, readFileText } from './src/extractors';
+import { EMPTY_FILTER, FilterMatcher, SimilarityScope, isInFolder } from './src/filters';
+import { DUPLICATES_VIEW_TYPE, DuplicatesView, renameDuplicateKeys } from './src/duplicates';
+import { PreparedChunk, PreprocessOptions, prepareNote, preprocessOptionsFor, preprocessSignature } from './src/preprocess';
+import { SemanticLinkSuggest } from './src/link-suggest';
+import { exportIndex, importIndex } from './src/index-transfer';
+import { PROTOCOL_ACTION, ThreadOfAriadneApi, handleProtocol } from './src/api';
+import { CODE_BLOCK_LANGUAGE, SimilarNotesBlock } from './src/code-block';
+import { LinkStatus, appendLinksUnderHeading, hasOutgoingLink, insertLinkAtCursor, linkStatus, linkTo } from './src/links';
 
 // Thread of Ariadne plugin: Find notes with similar embedding vectors
-// Now with Gemini API integration!
+// Now with pluggable embedding providers (Gemini, OpenAI-compatible, Ollama, local)!
 
-interface ThreadOfAriadneSettings {
+// 'note' re-ranks against the whole note being edited, 'paragraph' against the
+// paragraph at the cursor
+export type LiveMode = 'off' | 'note' | 'paragraph';
+
+export interface ThreadOfAriadneSettings extends PreprocessOptions, FileTypeOptions {
 	apiKey: string;
 	numSimilarNotes: number;
 	minSimilarityScore: number;
 	ignoreFolders: string[];
+	scopes: SimilarityScope[]; // Named filters for the notes similar notes may come from
+	activeScope: string; // Name of the scope used by the sidebar, '' for all notes
 	cacheExpiration: number;
-	useGeminiEmbeddings: boolean;
+	indexFilePath: string; // Vault file the embedding index is exported to and imported from
+	embeddingProvider: string; // Id of one of EMBEDDING_PROVIDERS
+	openaiBaseUrl: string;
+	openaiModel: string;
+	openaiApiKey: string;
+	ollamaBaseUrl: string;
+	ollamaModel: string;
+	localDimensions: number; // Vector size of the offline TF-IDF embedder
+	conceptMapPath: string; // Vault file with user-defined cross-language concepts
+	chunkSize: number; // Maximum characters per embedded passage
+	chunkAggregation: ChunkAggregation;
+	chunkTopK: number;
+	approximateSearch: boolean; // Use the ANN index for large vaults
+	rankingMode: RankingMode;
+	semanticWeight: number;
+	keywordWeight: number;
+	tagWeight: number;
+	linkWeight: number;
+	folderWeight: number;
+	relatedHeading: string; // Heading that appended links are listed under
+	linkAllThreshold: number; // Minimum score for "Link all" in the sidebar
+	hideLinkedNotes: boolean; // Leave out notes already linked in either direction
+	liveMode: LiveMode; // What the sidebar follows while typing
+	liveModeDelay: number; // Milliseconds without typing before live results update
+	semanticLinkSuggest: boolean; // Rank "[[" suggestions by similarity
+	graphNeighbours: number; // Neighbours shown around each note in the semantic graph
+	graphSecondHop: boolean; // Also show the neighbours of neighbours
+	graphColorBy: GraphColorBy;
+	clusterCount: number; // Number of topic clusters, 0 to choose from the vault size
+	clusterFolder: string; // Folder for map-of-content notes of topic clusters
+	duplicateThreshold: number; // Minimum whole-note similarity to report a pair as duplicates
+	dismissedDuplicates: string[]; // Pairs marked "not a duplicate", see duplicateKey
 	encryptedApiKey?: string; // Optional field for encrypted API key
-	rateLimitPerMinute?: number; // Optional rate limit for API calls
-	lastApiCallTime?: number; // Track when we last made an API call
-	apiCallsInLastMinute?: number; // Track how many calls we've made recently
+	encryptedOpenaiApiKey?: string; // Optional field for encrypted OpenAI-compatible API key
+	rateLimitPerMinute: number; // Starting rate limit for Gemini API calls
 }
 
 const DEFAULT_SETTINGS: ThreadOfAriadneSettings = {
@@ -21,34 +80,119 @@ const DEFAULT_SETTINGS: ThreadOfAriadneSettings = {
 	numSimilarNotes: 5,
 	minSimilarityScore: 0.7,
 	ignoreFolders: [],
+	scopes: [],
+	activeScope: '',
 	cacheExpiration: 7, // days
-	useGeminiEmbeddings: false,
-	rateLimitPerMinute: 30, // Default to 30 calls per minute
-	lastApiCallTime: 0,
-	apiCallsInLastMinute: 0
+	indexFilePath: 'thread-of-ariadne-index.jsonl',
+	embeddingProvider: LOCAL_PROVIDER_ID,
+	openaiBaseUrl: 'https://api.openai.com/v1',
+	openaiModel: 'text-embedding-3-small',
+	openaiApiKey: '',
+	ollamaBaseUrl: 'http://localhost:11434',
+	ollamaModel: 'nomic-embed-text',
+	localDimensions: 256,
+	conceptMapPath: '',
+	chunkSize: 1000,
+	chunkAggregation: 'top-k-mean',
+	chunkTopK: 3,
+	keepFrontmatter: false,
+	dropCodeBlocks: true,
+	resolveEmbeds: true,
+	titleWeight: 1,
+	headingWeight: 1,
+	indexCanvases: true,
+	indexPdfs: true,
+	indexImages: true,
+	approximateSearch: true,
+	rankingMode: 'weighted',
+	semanticWeight: 1,
+	keywordWeight: 0.2,
+	tagWeight: 0.1,
+	linkWeight: 0.1,
+	folderWeight: 0.05,
+	relatedHeading: 'Related',
+	linkAllThreshold: 0.8,
+	hideLinkedNotes: false,
+	liveMode: 'off',
+	liveModeDelay: 1500,
+	semanticLinkSuggest: false,
+	graphNeighbours: 8,
+	graphSecondHop: false,
+	graphColorBy: 'folder',
+	clusterCount: 0,
+	clusterFolder: 'Topics',
+	duplicateThreshold: 0.95,
+	dismissedDuplicates: [],
+	rateLimitPerMinute: 30 // Default to 30 calls per minute
+}
+
+export interface PassageMatch {
+	heading: string;
+	start: number;
+	end: number;
 }
 
-interface EmbeddingCacheItem {
-	embedding: number[];
-	timestamp: number;
+// Text of a note to find similar notes for, with its offsets in the note
+export interface PassageQuery {
+	text: string;
+	start: number;
+	end: number;
 }
 
-interface SimilarNoteResult {
+export interface SimilarNoteResult {
 	file: TFile;
 	score: number;
+	sourcePassage?: PassageMatch; // Passage in the current note
+	matchedPassage?: PassageMatch; // Best-matching passage in the other note
+	linkStatus?: LinkStatus; // Existing links between the current note and this one
+	components?: ScoreComponents; // What the score is made of
 }
 
 const SIMILAR_NOTES_VIEW_TYPE = 'thread-of-ariadne-view';
 
+// Minimum time between two embedding error notices
+const ERROR_NOTICE_INTERVAL = 30000;
+
+// Vaults smaller than this are scanned exhaustively, which is fast enough and exact
+const APPROXIMATE_SEARCH_MIN_NOTES = 1000;
+// Nearest-neighbour candidates fetched per requested result, before passage re-ranking
+const ANN_CANDIDATE_FACTOR = 10;
+const ANN_MIN_CANDIDATES = 50;
+
+// Wait for settings to settle before re-indexing notes they affect
+const REINDEX_DELAY = 2000;
+
 export default class ThreadOfAriadne extends Plugin {
 	settings: ThreadOfAriadneSettings;
-	embeddings: Map<string, EmbeddingCacheItem> = new Map();
+	store: EmbeddingStore;
+	neighbours: NeighbourIndex;
+	lexical: LexicalIndex;
 	sidebar: SimilarNotesSidebar | null = null;
+	provider: EmbeddingProvider | null = null;
+	lastErrorNotice = 0;
+	indexer: VaultIndexer;
+	// Re-index notes after a change to chunking or preprocessing settings
+	requestReindex = debounce(() => this.indexer.start(), REINDEX_DELAY, true);
+	requestConceptMapReload = debounce(() => this.reloadConceptMap(), REINDEX_DELAY, true);
+	// Index notes for a model name once it has been typed out
+	requestModelChange = debounce(() => {
+		this.getProvider(true);
+		this.indexer.start();
+	}, REINDEX_DELAY, true);
+	// Public API for other plugins and scripts, see src/api.ts
+	api: ThreadOfAriadneApi = new ThreadOfAriadneApi(this);
+	// Provider of the index lookups read from, while a new model is being indexed
+	servingProvider: EmbeddingProvider | null = null;
+	// Pending and latest live-mode update, see requestLiveUpdate
+	private liveTimer: number | null = null;
+	private liveUpdateId = 0;
 	
 	async onload() {
 		await this.loadSettings();
 		await this.loadEmbeddingCache();
 		
+		this.indexer = new VaultIndexer(this);
+		
 		// Add the ribbon icon for finding similar notes
 		this.addRibbonIcon('search', 'Find Similar Notes', (evt: MouseEvent) => {
 			this.findSimilarNotes();
@@ -70,6 +214,38 @@ export default class ThreadOfAriadne extends Plugin {
 			}
 		});
 		
+		// Find notes similar to only the selected text, or the paragraph at the cursor
+		this.addCommand({
+			id: 'find-similar-to-selection',
+			name: 'Find similar notes to selection or current paragraph',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.findSimilarToEditorPassage(editor, view);
+			}
+		});
+		
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor, view) => {
+				if (!(view instanceof MarkdownView)) return;
+				menu.addItem((item) => {
+					item
+						.setTitle(editor.somethingSelected() ? 'Find similar notes to selection' : 'Find similar notes to paragraph')
+						.setIcon('search')
+						.onClick(() => this.findSimilarToEditorPassage(editor, view));
+				});
+			})
+		);
+		
+		// Live mode: follow the note, or the paragraph at the cursor, while typing
+		this.registerEvent(
+			this.app.workspace.on('editor-change', (editor, info) => {
+				if (this.settings.liveMode !== 'off' && info.file) {
+					this.requestLiveUpdate(editor, info.file);
+				}
+			})
+		);
+		
+		this.registerEditorSuggest(new SemanticLinkSuggest(this.app, this));
+		
 		// Register a view type for our sidebar
 		this.registerView(
 			SIMILAR_NOTES_VIEW_TYPE,
@@ -80,6 +256,37 @@ export default class ThreadOfAriadne extends Plugin {
 			}
 		);
 		
+		this.registerView(
+			SEMANTIC_GRAPH_VIEW_TYPE,
+			(leaf) => new SemanticGraphView(leaf, this)
+		);
+		
+		this.addCommand({
+			id: 'open-semantic-graph',
+			name: 'Open semantic graph',
+			callback: () => {
+				this.activateTabView(SEMANTIC_GRAPH_VIEW_TYPE);
+			}
+		});
+		
+		this.registerView(
+			DUPLICATES_VIEW_TYPE,
+			(leaf) => new DuplicatesView(leaf, this)
+		);
+		
+		this.addCommand({
+			id: 'find-duplicates',
+			name: 'Find duplicate notes',
+			callback: async () => {
+				// A new report scans when it opens; an open one is refreshed
+				const existing = this.app.workspace.getLeavesOfType(DUPLICATES_VIEW_TYPE)[0]?.view;
+				await this.activateTabView(DUPLICATES_VIEW_TYPE);
+				if (existing instanceof DuplicatesView) {
+					await existing.scan();
+				}
+			}
+		});
+		
 		// Register workspace event to automatically update when changing notes
 		this.registerEvent(
 			this.app.workspace.on('active-leaf-change', async () => {
@@ -87,21 +294,161 @@ export default class ThreadOfAriadne extends Plugin {
 				if (activeView && this.sidebar && this.sidebar.isVisible) {
 					await this.findSimilarNotes();
 				}
+				// Open graph views follow the active note
+				if (activeView?.file) {
+					for (const leaf of this.app.workspace.getLeavesOfType(SEMANTIC_GRAPH_VIEW_TYPE)) {
+						const view = leaf.view;
+						if (view instanceof SemanticGraphView && view.centre?.path !== activeView.file.path) {
+							await view.setCentre(activeView.file);
+						}
+					}
+				}
+			})
+		);
+		
+		// Index the vault in the background once it has loaded, then keep
+		// the index current as notes change
+		this.app.workspace.onLayoutReady(async () => {
+			this.registerEvent(this.app.vault.on('create', (file) => {
+				if (file instanceof TFile) this.indexer.enqueue(file);
+				if (this.isConceptMap(file.path)) this.requestConceptMapReload();
+			}));
+			this.registerEvent(this.app.vault.on('modify', (file) => {
+				if (file instanceof TFile) this.indexer.enqueueModified(file);
+				if (this.isConceptMap(file.path)) this.requestConceptMapReload();
+			}));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) this.indexer.rename(file, oldPath);
+				this.renameDismissedDuplicates(oldPath, file.path);
+				if (this.isConceptMap(file.path) || this.isConceptMap(oldPath)) this.requestConceptMapReload();
+			}));
+			this.registerEvent(this.app.vault.on('delete', (file) => {
+				this.indexer.remove(file.path);
+				if (this.isConceptMap(file.path)) this.requestConceptMapReload();
+			}));
+			// Term statistics come first, so that local embeddings use a complete IDF table
+			await this.syncLexicalIndex();
+			this.indexer.start();
+		});
+		
+		// Local vectors computed against an outdated IDF table are replaced in the background
+		this.registerEvent(
+			this.lexical.on('generation', () => {
+				if (this.settings.embeddingProvider === LOCAL_PROVIDER_ID) {
+					this.getProvider();
+					this.indexer.start();
+				}
+			})
+		);
+		
+		// Refresh the sidebar when a background indexing run finishes, unless live
+		// mode keeps it on the paragraph being edited. A run that completes the
+		// index of a new model also switches lookups over to it.
+		this.registerEvent(
+			this.indexer.on('complete', async () => {
+				await this.finishMigration();
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (activeView && this.sidebar && this.sidebar.isVisible && this.settings.liveMode !== 'paragraph') {
+					await this.findSimilarNotes();
+				}
 			})
 		);
 		
+		// Free-text semantic search over the index
+		this.addCommand({
+			id: 'semantic-search',
+			name: 'Search notes by meaning',
+			callback: () => {
+				new SemanticSearchModal(this.app, this).open();
+			}
+		});
+		
+		this.addCommand({
+			id: 'cluster-notes',
+			name: 'Group notes into topics',
+			callback: () => {
+				this.showTopicClusters();
+			}
+		});
+		
+		this.addCommand({
+			id: 'pause-indexing',
+			name: 'Pause background indexing',
+			checkCallback: (checking: boolean) => {
+				if (this.indexer.paused) return false;
+				if (!checking) {
+					this.indexer.pause();
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'resume-indexing',
+			name: 'Resume background indexing',
+			checkCallback: (checking: boolean) => {
+				if (!this.indexer.paused) return false;
+				if (!checking) {
+					this.indexer.resume();
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'export-index',
+			name: 'Export the embedding index',
+			callback: () => this.exportIndex()
+		});
+		
+		this.addCommand({
+			id: 'import-index',
+			name: 'Import an exported embedding index',
+			callback: () => this.importIndex()
+		});
+		
+		this.addCommand({
+			id: 'rebuild-index',
+			name: 'Rebuild the embedding index',
+			callback: () => {
+				this.indexer.rebuild();
+				new Notice('Thread of Ariadne: Rebuilding the embedding index in the background');
+			}
+		});
+		
+		// obsidian://thread-of-ariadne/similar?path=... and .../search?q=...
+		for (const action of [PROTOCOL_ACTION, `${PROTOCOL_ACTION}/similar`, `${PROTOCOL_ACTION}/search`]) {
+			this.registerObsidianProtocolHandler(action, (params) => handleProtocol(this, params));
+		}
+		
+		// Lists of related notes inside notes, see src/code-block.ts
+		this.registerMarkdownCodeBlockProcessor(CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+			ctx.addChild(new SimilarNotesBlock(el, this, source, ctx.sourcePath));
+		});
+		
 		// Add a settings tab
 		this.addSettingTab(new ThreadOfAriadneSettingTab(this.app, this));
 	}
 	
 	onunload() {
+		if (this.liveTimer !== null) {
+			window.clearTimeout(this.liveTimer);
+		}
+		this.indexer.unload();
 		this.saveEmbeddingCache();
 	}
 	
 	async loadSettings() {
 		// Load settings using Obsidian's data API
 		const loadedData = await this.loadData();
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+		// `useGeminiEmbeddings` predates provider selection; migrate it once.
+		// Embeddings used to live in data.json and are now kept in their own files.
+		// Rate limit counters used to be persisted; they now live in memory only.
+		const { useGeminiEmbeddings, embeddings, lastApiCallTime, apiCallsInLastMinute, ...storedSettings } = loadedData ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, storedSettings);
+		if (!storedSettings.embeddingProvider && useGeminiEmbeddings) {
+			this.settings.embeddingProvider = 'gemini';
+		}
 
 		// If we have an encrypted API key, decrypt it
 		if (loadedData?.encryptedApiKey) {
@@ -112,6 +459,18 @@ export default class ThreadOfAriadne extends Plugin {
 				this.settings.apiKey = '';
 			}
 		}
+		if (loadedData?.encryptedOpenaiApiKey) {
+			try {
+				this.settings.openaiApiKey = await this.decryptApiKey(loadedData.encryptedOpenaiApiKey);
+			} catch (error) {
+				console.error('Failed to decrypt OpenAI-compatible API key:', error);
+				this.settings.openaiApiKey = '';
+			}
+		}
+
+		if (embeddings || lastApiCallTime !== undefined || apiCallsInLastMinute !== undefined) {
+			await this.saveSettings();
+		}
 	}
 
 	async saveSettings() {
@@ -129,13 +488,21 @@ export default class ThreadOfAriadne extends Plugin {
 				dataToSave.encryptedApiKey = '*****';
 			}
 		}
+		if (this.settings.openaiApiKey) {
+			try {
+				dataToSave.encryptedOpenaiApiKey = await this.encryptApiKey(this.settings.openaiApiKey);
+			} catch (error) {
+				console.error('Failed to encrypt OpenAI-compatible API key:', error);
+				dataToSave.encryptedOpenaiApiKey = '*****';
+			}
+		}
 
-		// Create a new object without the apiKey property
+		// Create a new object without the plain text API keys
 		const dataToStore: Record<string, any> = {};
 
-		// Copy all properties except apiKey
+		// Copy all properties except the API keys
 		Object.entries(dataToSave).forEach(([key, value]) => {
-			if (key !== 'apiKey') {
+			if (key !== 'apiKey' && key !== 'openaiApiKey') {
 				dataToStore[key] = value;
 			}
 		});
@@ -234,493 +601,718 @@ export default class ThreadOfAriadne extends Plugin {
 	}
 	
 	async loadEmbeddingCache() {
-		const data = await this.loadData();
-		if (data?.embeddings) {
-			this.embeddings = new Map(Object.entries(data.embeddings));
-			// Clean expired cache entries
-			this.cleanEmbeddingCache();
-		}
+		const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		// The local provider names its vector space after the term index generation
+		this.lexical = new LexicalIndex(this.app.vault.adapter, dir, await this.loadTokenizer());
+		await this.lexical.load();
+		this.store = new EmbeddingStore(this.app.vault.adapter, dir);
+		await this.store.load();
+		// Starts or resumes a migration when the model changed since the index was saved
+		this.getProvider();
+		// Clean expired cache entries
+		this.cleanEmbeddingCache();
+		
+		// The nearest-neighbour graph may need catching up; build it without blocking startup
+		this.neighbours = new NeighbourIndex(this.store, this.app.vault.adapter, dir);
+		this.neighbours.load();
 	}
 	
 	async saveEmbeddingCache() {
-		const embeddingsObj = Object.fromEntries(this.embeddings);
-		await this.saveData({
-			...await this.loadData(),
-			embeddings: embeddingsObj
-		});
+		await this.store.save();
+		await this.neighbours.save();
+		await this.lexical.save();
 	}
 	
-	cleanEmbeddingCache() {
-		const now = Date.now();
-		const expiration = this.settings.cacheExpiration * 24 * 60 * 60 * 1000; // days to ms
-		
-		for (const [path, cacheItem] of this.embeddings.entries()) {
-			if (now - cacheItem.timestamp > expiration) {
-				this.embeddings.delete(path);
+	async exportIndex() {
+		const path = this.settings.indexFilePath;
+		try {
+			const manifest = await exportIndex(this, path);
+			new Notice(`Thread of Ariadne: Exported ${manifest.vectors} passage vectors of ${manifest.notes.length} notes to ${path}`);
+		} catch (error) {
+			console.error('Thread of Ariadne: Failed to export the embedding index', error);
+			new Notice(`Thread of Ariadne: Export failed: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+	
+	// Import vectors, then let the indexer pick them up: notes whose passages
+	// match the imported ones are indexed without calling the provider
+	async importIndex() {
+		const path = this.settings.indexFilePath;
+		try {
+			const { manifest, imported, skipped } = await importIndex(this, path);
+			await this.saveEmbeddingCache();
+			this.indexer.start();
+			
+			let message = `Thread of Ariadne: Imported ${imported} passage vectors (${skipped} were already present)`;
+			if (manifest.space !== this.store.writeSpace) {
+				message += `. They were made with ${manifest.model}, so they are only used if that model is selected before the cache expires`;
+			} else if (manifest.pipeline !== this.pipelineSignature()) {
+				message += '. The exporting device splits notes into passages differently, so some notes are embedded again';
 			}
+			new Notice(message, 10000);
+		} catch (error) {
+			console.error('Thread of Ariadne: Failed to import the embedding index', error);
+			new Notice(`Thread of Ariadne: Import failed: ${error instanceof Error ? error.message : error}`);
 		}
 	}
 	
-	// Get embeddings using either Gemini API or local method
-	async getEmbedding(text: string): Promise<number[]> {
-		// Use Gemini API if enabled and API key is provided
-		if (this.settings.useGeminiEmbeddings && this.settings.apiKey) {
+	cleanEmbeddingCache() {
+		const expiration = this.settings.cacheExpiration * 24 * 60 * 60 * 1000; // days to ms
+		this.store.prune(expiration);
+	}
+	
+	// Count the terms of every note that changed since the term index was saved
+	async syncLexicalIndex() {
+		await this.lexical.sync(
+			this.indexableFiles(),
+			async (file) => (await this.prepareNoteChunks(file)).map(chunk => chunk.embeddingText).join('\n\n')
+		);
+	}
+	
+	isConceptMap(path: string): boolean {
+		return !!this.settings.conceptMapPath && normalizePath(this.settings.conceptMapPath) === path;
+	}
+	
+	// Built-in concepts, extended with the ones in the concept map file
+	async loadTokenizer(): Promise<Tokenizer> {
+		const concepts: Record<string, string[]> = { ...DEFAULT_CONCEPTS };
+		const path = this.settings.conceptMapPath ? normalizePath(this.settings.conceptMapPath) : '';
+		if (path && await this.app.vault.adapter.exists(path)) {
 			try {
-				return await this.getGeminiEmbedding(text);
-			} catch (error) {
-				console.error('Failed to get Gemini embedding:', error);
-				
-				// Provide more specific error message based on the error type
-				let errorMessage = 'Failed to get Gemini embedding. Falling back to local method.';
-				
-				// Check if it's a quota/rate limit issue
-				const errorStr = String(error);
-				if (errorStr.includes('RESOURCE_EXHAUSTED') || errorStr.includes('quota') || 
-					errorStr.includes('rate limit') || errorStr.includes('429')) {
-					errorMessage = 'Gemini API quota exhausted. Falling back to local method. Try again later or reduce usage.';
-					
-					// Temporarily disable Gemini embeddings to prevent more failed API calls
-					this.settings.useGeminiEmbeddings = false;
-					
-					// Show a more detailed notification
-					new Notice(
-						'Thread of Ariadne: Gemini API quota exhausted. ' +
-						'Temporarily switched to local embeddings. ' +
-						'Re-enable Gemini in settings when quota resets.',
-						10000 // Show for 10 seconds
-					);
-					
-					// Save the setting change
-					await this.saveSettings();
-				} else {
-					new Notice('Thread of Ariadne: ' + errorMessage);
+				for (const [concept, terms] of Object.entries(parseConceptMap(await this.app.vault.adapter.read(path)))) {
+					concepts[concept] = [...(concepts[concept] ?? []), ...terms];
 				}
-				
-				// Fall back to local method if API call fails
-				return this.getLocalEmbedding(text);
+			} catch (error) {
+				console.error('Thread of Ariadne: Failed to read the concept map', error);
 			}
-		} else {
-			// Use local method
-			return this.getLocalEmbedding(text);
 		}
+		return new Tokenizer(concepts);
 	}
-
-	// Check and enforce rate limits for API calls
-	private async checkRateLimit(): Promise<void> {
-		const now = Date.now();
-		
-		// Reset counter if more than a minute has passed
-		if (now - (this.settings.lastApiCallTime || 0) > 60000) {
-			this.settings.apiCallsInLastMinute = 0;
-			this.settings.lastApiCallTime = now;
+	
+	// Re-count terms once the concept map changed; local vectors follow via a new generation
+	async reloadConceptMap() {
+		if (this.lexical.setTokenizer(await this.loadTokenizer())) {
+			await this.syncLexicalIndex();
 		}
-		
-		// Track this call
-		this.settings.apiCallsInLastMinute = (this.settings.apiCallsInLastMinute || 0) + 1;
-		this.settings.lastApiCallTime = now;
-		
-		// Check if we're over the rate limit
-		if ((this.settings.apiCallsInLastMinute || 0) > (this.settings.rateLimitPerMinute || 30)) {
-			// Wait until the end of the current minute before proceeding
-			const waitTimeNeeded = 60000 - (now - (this.settings.lastApiCallTime || 0) - 60000);
-			
-			if (waitTimeNeeded > 0) {
-				console.log(`Rate limit reached. Waiting ${Math.ceil(waitTimeNeeded/1000)} seconds...`);
-				
-				// Show a notice to the user
-				new Notice(`Thread of Ariadne: Rate limit reached. Waiting ${Math.ceil(waitTimeNeeded/1000)} seconds to avoid quota exhaustion.`, 5000);
-				
-				// Wait for the required time
-				await new Promise(resolve => setTimeout(resolve, waitTimeNeeded));
-				
-				// Reset the counter after waiting
-				this.settings.apiCallsInLastMinute = 1;
-				this.settings.lastApiCallTime = Date.now();
-			}
-		}
-		
-		// Save updated settings
-		await this.saveSettings();
-	}
-
-	// Get embeddings using the Gemini API
-	async getGeminiEmbedding(text: string): Promise<number[]> {
-		// Apply rate limiting to avoid quota exhaustion
-		await this.checkRateLimit();
-		
-		// Detect if the text contains significant amounts of non-Latin script
-		// This will help ensure the API understands the content is multilingual
-		const hasSignificantNonLatin = /[\u4E00-\u9FFF\u3040-\u309F\u30A0-\u30FF\uAC00-\uD7AF]{5,}/.test(text);
-		
-		// For non-Latin text, we'll add a note to help the model process it correctly
-		if (hasSignificantNonLatin) {
-			console.log('Detected significant non-Latin content, optimizing for multilingual embedding');
-		}
-		const url = "https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-exp-03-07:embedContent";
-		
-		// Validate API key
-		if (!this.settings.apiKey || this.settings.apiKey.trim() === '') {
-			new Notice('Thread of Ariadne: Missing Gemini API Key. Please add it in settings.');
-			throw new Error('Missing API key');
-		}
-
-		// Prepare the request body
-		const requestBody = {
-			content: {
-				parts: [
-					{ 
-						text: hasSignificantNonLatin ? 
-							// For non-Latin text, we add a hint to improve multilingual processing
-							`Content for multilingual semantic embedding: ${text}` : 
-							text 
-					}
-				]
+	}
+	
+	// Get the provider selected in settings, creating it on first use. Server
+	// providers keep the model they were created with, so a model name being
+	// typed in settings only takes effect with `refresh`, see requestModelChange.
+	getProvider(refresh = false): EmbeddingProvider {
+		if (!this.provider || refresh || this.provider.id !== this.settings.embeddingProvider) {
+			// The provider of the current index embeds queries until the new index is complete
+			if (this.provider && this.store && vectorSpaceId(this.provider) === this.store.space) {
+				this.servingProvider = this.provider;
 			}
-		};
+			this.provider = getProviderDefinition(this.settings.embeddingProvider).create(this);
+		}
+		// The local model changes with the term index generation, so always re-check the space
+		if (this.store?.setSpace(vectorSpaceId(this.provider))) {
+			this.notifyMigration(this.provider);
+		}
+		return this.provider;
+	}
+	
+	// The local model changes with every IDF generation and catches up quietly
+	notifyMigration(provider: EmbeddingProvider) {
+		const previous = this.store.spaceInfo(this.store.space);
+		if (provider.id === LOCAL_PROVIDER_ID && previous.provider === LOCAL_PROVIDER_ID) return;
+		new Notice(
+			`Thread of Ariadne: Re-indexing notes for ${provider.name} (${provider.model}). ` +
+			'Similar notes come from the previous index until the new one is complete.',
+			10000
+		);
+	}
+	
+	// Switch lookups to the new model's index once every note has a vector in
+	// it, or right away when `force` is set. Notes missing from it then drop
+	// out of the results until they are embedded.
+	async finishMigration(force = false) {
+		if (!this.store.pendingSpace) return;
+		const { done, total } = this.store.migrationProgress();
+		if (done < total && !force) return;
+		
+		this.store.finishMigration();
+		this.servingProvider = null;
+		this.neighbours.sync();
+		await this.saveEmbeddingCache();
+		const { model } = this.store.spaceInfo(this.store.space);
+		new Notice(`Thread of Ariadne: Now using the ${model} index`);
+	}
+	
+	// The provider and vector space free-text queries are embedded for. While a
+	// new model is being indexed that is the previous index, if its provider is
+	// still at hand, and otherwise the notes re-indexed so far.
+	queryTarget(): { provider: EmbeddingProvider; space: string } {
+		const provider = this.getProvider();
+		const { space, pendingSpace } = this.store;
+		if (!pendingSpace) {
+			return { provider, space };
+		}
+		if (this.servingProvider && vectorSpaceId(this.servingProvider) === space) {
+			return { provider: this.servingProvider, space };
+		}
+		return { provider, space: pendingSpace };
+	}
+
+	async getEmbedding(text: string, provider = this.getProvider()): Promise<number[]> {
+		const [embedding] = await this.getEmbeddings([text], provider);
+		return embedding;
+	}
 
+	// Get embeddings using the configured provider. Failures are reported and rethrown;
+	// vectors from another provider would not be comparable with the index.
+	async getEmbeddings(texts: string[], provider = this.getProvider()): Promise<number[][]> {
 		try {
-			// Show a status indicator for API calls
-			const statusBarItem = this.addStatusBarItem();
-			statusBarItem.setText('⏳ Generating embedding...');
-			
-			// Make the API request
-			const response = await fetch(`${url}?key=${this.settings.apiKey}`, {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify(requestBody)
-			});
-			
-			// Clean up status bar
-			statusBarItem.remove();
-			
-			// Handle error responses
-			if (!response.ok) {
-				const errorData = await response.json().catch(() => null);
-				let errorMessage = `API Error (${response.status})`;
-				
-				// Extract useful error information if available
-				if (errorData && errorData.error) {
-					errorMessage = `${errorData.error.message || errorMessage} (${errorData.error.status || 'unknown'})`;
-					console.error('Gemini API error details:', errorData.error);
-				}
-				
-				new Notice(`Thread of Ariadne: ${errorMessage}`);
-				throw new Error(errorMessage);
-			}
-			
-			const data = await response.json();
-			
-			// Validate the response contains what we expect
-			if (!data.embedding || !data.embedding.values || !Array.isArray(data.embedding.values)) {
-				console.error('Unexpected API response format:', data);
-				throw new Error('Invalid API response format');
-			}
-			
-			// The Gemini API returns a 3072-dimensional vector; we'll use it as is
-			return data.embedding.values;
+			return await provider.embedBatch(texts);
 		} catch (error) {
-			console.error("Error fetching Gemini embeddings:", error);
-			// Rethrow for the calling code to handle
+			console.error(`Failed to get ${provider.name} embedding:`, error);
+			this.notifyEmbeddingError(provider, error);
 			throw error;
 		}
 	}
 
-	// Improved local embedding implementation with better multilingual support
-	getLocalEmbedding(text: string): number[] {
-		// Extract both Latin-script words and CJK (Chinese, Japanese, Korean) characters
-		// First, match Latin-script words
-		const latinWords = text.toLowerCase().match(/[a-z0-9]+/g) || [];
-		
-		// Then match CJK characters (Chinese, Japanese, Korean)
-		// Unicode ranges: 
-		// - Chinese: \u4E00-\u9FFF (CJK Unified Ideographs)
-		// - Japanese additional: \u3040-\u309F (Hiragana), \u30A0-\u30FF (Katakana)
-		// - Korean: \uAC00-\uD7AF (Hangul)
-		const cjkChars = text.match(/[\u4E00-\u9FFF\u3040-\u309F\u30A0-\u30FF\uAC00-\uD7AF]/g) || [];
-		
-		// Combine both for a unified approach
-		const tokens = [...latinWords, ...cjkChars];
-		const tokenFreq: Record<string, number> = {};
+	// Show at most one embedding error notice per interval, so a failing
+	// background indexing run does not flood the screen
+	notifyEmbeddingError(provider: EmbeddingProvider, error: unknown) {
+		const now = Date.now();
+		if (now - this.lastErrorNotice < ERROR_NOTICE_INTERVAL) return;
+		this.lastErrorNotice = now;
 		
-		// Count token frequencies
-		for (const token of tokens) {
-			tokenFreq[token] = (tokenFreq[token] || 0) + 1;
+		if (error instanceof EmbeddingRateLimitError) {
+			new Notice(
+				`Thread of Ariadne: ${provider.name} API quota exhausted. ` +
+				'Indexing will resume automatically when the quota allows.',
+				10000 // Show for 10 seconds
+			);
+		} else {
+			new Notice(`Thread of Ariadne: Failed to get ${provider.name} embedding: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	// Whether the note has no cached embedding or was modified after it was cached
+	isIndexStale(file: TFile): boolean {
+		const note = this.store.notes.get(file.path);
+		return !note
+			|| contentMtime(this.app, file) > note.mtime
+			|| note.pipeline !== this.pipelineSignature()
+			|| !this.store.isComplete(file.path, this.store.writeSpace);
+	}
+	
+	pipelineSignature(): string {
+		return preprocessSignature(this.settings, this.settings.chunkSize);
+	}
+	
+	// Passages of a note, or of the text extracted from a canvas, PDF or image
+	async prepareNoteChunks(file: TFile): Promise<PreparedChunk[]> {
+		const content = fileKind(file) === 'note'
+			? await this.app.vault.read(file)
+			: await readFileText(this.app, file);
+		const options = preprocessOptionsFor(this.app, file, this.settings);
+		return prepareNote(this.app, file, content, options, this.settings.chunkSize);
+	}
+	
+	async getNoteEmbedding(file: TFile): Promise<EmbeddingCacheItem | undefined> {
+		// Check if we have a cached embedding
+		if (!this.isIndexStale(file)) {
+			return this.store.get(file.path);
 		}
 		
-		// Create a simple 200-dimensional vector (increased from 100 for better resolution)
-		// We use separate sections for Latin and CJK content
-		const vector = new Array(200).fill(0);
-		
-		for (const token of Object.keys(tokenFreq)) {
-			// Determine if this is a CJK character
-			const isCJK = /[\u4E00-\u9FFF\u3040-\u309F\u30A0-\u30FF\uAC00-\uD7AF]/.test(token);
-			
-			// Use different hash spaces for different scripts
-			// This helps create some meaningful clustering
-			let hash;
-			if (isCJK) {
-				// Use the second half of the vector for CJK characters
-				hash = 100 + (this.simpleHash(token) % 100);
-			} else {
-				// Use the first half for Latin script
-				hash = this.simpleHash(token) % 100;
-			}
-			
-			vector[hash] += tokenFreq[token];
-		}
-		
-		// For better cross-language detection, add some overlap between scripts
-		// by calculating semantic hash overlaps
-		this.addCrossLanguageFeatures(vector, tokenFreq);
-		
-		// Normalize the vector
-		const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-		if (magnitude > 0) {
-			for (let i = 0; i < vector.length; i++) {
-				vector[i] /= magnitude;
-			}
-		}
-		
-		return vector;
-	}
-	
-	// A simple string hash function for demo purposes
-	simpleHash(str: string): number {
-		let hash = 0;
-		for (let i = 0; i < str.length; i++) {
-			const char = str.charCodeAt(i);
-			hash = ((hash << 5) - hash) + char;
-			hash = hash & hash; // Convert to 32bit integer
-		}
-		return Math.abs(hash);
-	}
-
-	// Add cross-language features to improve similarity detection between languages
-	addCrossLanguageFeatures(vector: number[], tokenFreq: Record<string, number>): void {
-		// Common concepts that might appear across languages
-		const commonConcepts: Record<string, string[]> = {
-			// Map some common English words to equivalent Chinese characters
-			'time': ['时间', '时', '日期'],
-			'day': ['天', '日', '日子'],
-			'person': ['人', '人员', '个人'],
-			'work': ['工作', '职业', '任务'],
-			'book': ['书', '书籍'],
-			'food': ['食物', '食品', '餐'],
-			'water': ['水', '水分'],
-			'house': ['房子', '家', '住宅'],
-			'computer': ['电脑', '计算机'],
-			'friend': ['朋友', '伙伴'],
-			'family': ['家庭', '家人'],
-			'money': ['钱', '金钱', '资金'],
-			'school': ['学校', '校园'],
-			'business': ['商业', '生意', '企业'],
-			'city': ['城市', '市'],
-			'country': ['国家', '国'],
-			'world': ['世界', '全球'],
-			'health': ['健康', '保健'],
-			'history': ['历史', '史'],
-			'future': ['未来', '将来'],
-			'technology': ['技术', '科技'],
-			'science': ['科学', '学科'],
-			'art': ['艺术', '美术'],
-			'music': ['音乐', '曲'],
-			'film': ['电影', '影片'],
-			'love': ['爱', '爱情'],
-			'problem': ['问题', '难题'],
-			'solution': ['解决方案', '解决', '方案'],
-			'idea': ['想法', '主意', '概念'],
-			'information': ['信息', '资讯']
-		};
+		// Split the note into cleaned-up passages and hash each one
+		const mtime = contentMtime(this.app, file);
+		const chunks = await this.prepareNoteChunks(file);
+		this.lexical.update(file.path, mtime, chunks.map(chunk => chunk.embeddingText).join('\n\n'));
+		const indexed = await this.embedChunks(chunks);
 		
-		// Map of Chinese tokens to English equivalents (reverse of above)
-		const chineseToEnglish: Record<string, string[]> = {};
-		for (const [eng, zhArr] of Object.entries(commonConcepts)) {
-			for (const zh of zhArr) {
-				if (!chineseToEnglish[zh]) {
-					chineseToEnglish[zh] = [];
-				}
-				chineseToEnglish[zh].push(eng);
-			}
+		this.store.setNote(file.path, { mtime, chunks: indexed, pipeline: this.pipelineSignature() });
+		this.neighbours.update(file.path);
+		return this.store.get(file.path);
+	}
+	
+	// Hash each passage, and embed only those whose content has no vector in
+	// this space yet
+	async embedChunks(chunks: PreparedChunk[], provider = this.getProvider(), space = this.store.writeSpace): Promise<IndexedChunk[]> {
+		const texts = chunks.map(chunk => chunk.embeddingText);
+		const indexed: IndexedChunk[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			const { heading, start, end } = chunks[i];
+			indexed.push({ hash: await contentHash(texts[i]), heading, start, end });
 		}
 		
-		// For each token in the document, check if it has a cross-language equivalent
-		for (const token of Object.keys(tokenFreq)) {
-			const isChinese = /[\u4E00-\u9FFF]/.test(token);
-			
-			if (isChinese && chineseToEnglish[token]) {
-				// Chinese token with English equivalents
-				for (const engEquiv of chineseToEnglish[token]) {
-					// Add some weight to the English equivalent's hash position
-					const engHash = this.simpleHash(engEquiv) % 100;
-					vector[engHash] += tokenFreq[token] * 0.5; // Add with reduced weight
-				}
-			} else if (!isChinese && commonConcepts[token]) {
-				// English token with Chinese equivalents
-				for (const zhEquiv of commonConcepts[token]) {
-					// Add some weight to the Chinese equivalent's hash position
-					const zhHash = 100 + (this.simpleHash(zhEquiv) % 100);
-					vector[zhHash] += tokenFreq[token] * 0.5; // Add with reduced weight
-				}
-			}
+		const missing = Array.from(indexed.keys()).filter(i => !this.store.hasVector(indexed[i].hash, space));
+		if (missing.length > 0) {
+			const embeddings = await this.getEmbeddings(missing.map(i => texts[i]), provider);
+			missing.forEach((chunkIndex, i) => this.store.setVector(indexed[chunkIndex].hash, embeddings[i], space));
 		}
+		return indexed;
 	}
 	
-	async getNoteEmbedding(file: TFile): Promise<number[]> {
-		// Check if we have a cached embedding
-		if (this.embeddings.has(file.path)) {
-			const cacheEntry = this.embeddings.get(file.path);
-			// Check if file was modified after embedding was cached
-			if (cacheEntry && file.stat.mtime <= cacheEntry.timestamp) {
-				return cacheEntry.embedding;
-			}
+	// Embedding of the unsaved text of a note being edited. The index is left
+	// alone, but the passage vectors are kept, so saving the note reuses them.
+	async embedDraft(file: TFile, content: string, target = this.queryTarget()): Promise<EmbeddingCacheItem | undefined> {
+		const options = preprocessOptionsFor(this.app, file, this.settings);
+		const chunks = await prepareNote(this.app, file, content, options, this.settings.chunkSize);
+		const { provider, space } = target;
+		const embedded: ChunkEmbedding[] = [];
+		for (const chunk of await this.embedChunks(chunks, provider, space)) {
+			const embedding = this.store.getVector(chunk.hash, space);
+			if (embedding) embedded.push({ ...chunk, embedding });
 		}
-		
-		// Generate a new embedding
-		const content = await this.app.vault.read(file);
-		const embedding = await this.getEmbedding(content);
-		
-		// Cache the embedding
-		this.embeddings.set(file.path, {
-			embedding,
-			timestamp: Date.now()
-		});
-		
-		return embedding;
+		if (embedded.length === 0) return undefined;
+		return {
+			embedding: Float32Array.from(meanVector(embedded.map(chunk => chunk.embedding))),
+			chunks: embedded,
+			mtime: Date.now()
+		};
 	}
 	
-	cosineSimilarity(a: number[], b: number[]): number {
-		if (a.length !== b.length) return 0;
-		
-		let dotProduct = 0;
-		let normA = 0;
-		let normB = 0;
-		
-		for (let i = 0; i < a.length; i++) {
-			dotProduct += a[i] * b[i];
-			normA += a[i] * a[i];
-			normB += b[i] * b[i];
+	// Score two notes from their passage embeddings
+	compareNotes(source: EmbeddingCacheItem, target: EmbeddingCacheItem): { score: number; sourcePassage?: PassageMatch; matchedPassage?: PassageMatch } {
+		const match = scoreChunkMatches(
+			source.chunks.map(chunk => chunk.embedding),
+			target.chunks.map(chunk => chunk.embedding),
+			this.settings.chunkAggregation,
+			this.settings.chunkTopK
+		);
+		if (match.sourceIndex < 0) {
+			return { score: 0 };
 		}
 		
-		if (normA === 0 || normB === 0) return 0;
-		
-		return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+		const { heading: sourceHeading, start: sourceStart, end: sourceEnd } = source.chunks[match.sourceIndex];
+		const { heading, start, end } = target.chunks[match.targetIndex];
+		return {
+			score: match.score,
+			sourcePassage: { heading: sourceHeading, start: sourceStart, end: sourceEnd },
+			matchedPassage: { heading, start, end }
+		};
 	}
 	
 	shouldIgnoreFile(file: TFile): boolean {
-		if (!file.extension || file.extension !== 'md') return true;
+		if (!isIndexable(file, this.settings)) return true;
 		
 		for (const folder of this.settings.ignoreFolders) {
-			if (file.path.startsWith(folder)) return true;
+			if (isInFolder(file.path, folder)) return true;
 		}
 		
 		return false;
 	}
 	
-	async findSimilarNotes() {
+	// Notes, and the canvases, PDFs and images enabled in settings
+	indexableFiles(): TFile[] {
+		return this.app.vault.getFiles().filter(file => !this.shouldIgnoreFile(file));
+	}
+	
+	// The scope selected in the sidebar, or null for all notes
+	activeScope(): SimilarityScope | null {
+		return this.settings.scopes.find(scope => scope.name === this.settings.activeScope) ?? null;
+	}
+	
+	// Show notes similar to `file`, or to the note in the active editor
+	async findSimilarNotes(file?: TFile) {
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) {
+		if (!file && !activeView) {
 			new Notice('Thread of Ariadne: No active note');
 			return;
 		}
 		
-		const currentFile = activeView.file;
+		const currentFile = file ?? activeView?.file;
 		if (!currentFile) {
 			new Notice('Thread of Ariadne: No active note file');
 			return;
 		}
 		
-		// Show a loading notice
-		const loadingNotice = new Notice('Thread of Ariadne: Finding similar notes...', 0);
+		// Show a loading notice if the current note still has to be embedded
+		const loadingNotice = this.isIndexStale(currentFile)
+			? new Notice('Thread of Ariadne: Finding similar notes...', 0)
+			: null;
 		
 		try {
-			// Get the embedding for the current note
-			const currentEmbedding = await this.getNoteEmbedding(currentFile);
-			
-			// Get all markdown files
-			const files = this.app.vault.getMarkdownFiles();
-			
-			// Calculate similarity scores
-			const similarityScores: SimilarNoteResult[] = [];
-			
-			for (const file of files) {
-				// Skip the current file and ignored files
-				if (file.path === currentFile.path || this.shouldIgnoreFile(file)) {
-					continue;
-				}
-				
-				const embedding = await this.getNoteEmbedding(file);
-				const similarity = this.cosineSimilarity(currentEmbedding, embedding);
-				
-				if (similarity >= this.settings.minSimilarityScore) {
-					similarityScores.push({ file, score: similarity });
-				}
-			}
-			
-			// Sort by similarity score (descending)
-			similarityScores.sort((a, b) => b.score - a.score);
-			
-			// Limit to the specified number of results
-			const topResults = similarityScores.slice(0, this.settings.numSimilarNotes);
-			
-			// Update or create the sidebar with results
-			if (this.sidebar) {
-				if (!this.sidebar.isVisible) {
-					await this.activateSidebar();
-				}
-				
-				this.sidebar.updateResults(currentFile, topResults);
-			} else {
-				await this.activateSidebar();
-				
-				// A small delay to ensure the sidebar is created
-				setTimeout(() => {
-					if (this.sidebar) {
-						this.sidebar.updateResults(currentFile, topResults);
-					}
-				}, 300);
-			}
-			
-			// Save the embedding cache periodically
-			this.saveEmbeddingCache();
-			
+			const topResults = await this.rankSimilarNotes(currentFile);
+			await this.showInSidebar(currentFile, topResults);
 		} catch (error) {
 			console.error('Thread of Ariadne: Error finding similar notes', error);
 			new Notice('Thread of Ariadne: Error finding similar notes');
 		} finally {
 			// Clear the loading notice
+			loadingNotice?.hide();
+		}
+	}
+	
+	// Show notes similar to a passage of `file` in the sidebar
+	async findSimilarToPassage(file: TFile, passage: PassageQuery) {
+		const loadingNotice = new Notice('Thread of Ariadne: Finding notes similar to the passage...', 0);
+		try {
+			const results = await this.rankSimilarToPassage(file, passage);
+			await this.showInSidebar(file, results, passage);
+		} catch (error) {
+			console.error('Thread of Ariadne: Error finding notes similar to the passage', error);
+			new Notice('Thread of Ariadne: Error finding similar notes');
+		} finally {
 			loadingNotice.hide();
 		}
 	}
 	
-	async activateSidebar() {
-		const { workspace } = this.app;
-		
-		// Check if the view is already open
-		const existingLeaf = workspace.getLeavesOfType(SIMILAR_NOTES_VIEW_TYPE)[0];
-		if (existingLeaf) {
-			workspace.revealLeaf(existingLeaf);
+	async findSimilarToEditorPassage(editor: Editor, view: MarkdownView) {
+		const passage = editorPassage(editor);
+		if (!view.file || !passage) {
+			new Notice('Thread of Ariadne: Select some text or place the cursor in a paragraph');
 			return;
 		}
-		
-		const leaf = workspace.getRightLeaf(false);
-		if (leaf) {
-			await leaf.setViewState({
-				type: SIMILAR_NOTES_VIEW_TYPE,
-				active: true,
-			});
-			workspace.revealLeaf(leaf);
+		await this.findSimilarToPassage(view.file, passage);
+	}
+	
+	// Update live results once typing has paused for the configured delay
+	requestLiveUpdate(editor: Editor, file: TFile) {
+		if (this.liveTimer !== null) {
+			window.clearTimeout(this.liveTimer);
 		}
+		this.liveTimer = window.setTimeout(() => {
+			this.liveTimer = null;
+			this.updateLive(editor, file);
+		}, this.settings.liveModeDelay);
 	}
-}
-
-class SimilarNotesSidebar extends ItemView {
-	plugin: ThreadOfAriadne;
-	isVisible: boolean = false;
 	
-	constructor(leaf: WorkspaceLeaf, plugin: ThreadOfAriadne) {
-		super(leaf);
+	// Re-rank against what is in the editor now, without waiting for the note to
+	// be saved and re-indexed. Errors are only logged, as they would otherwise
+	// interrupt typing.
+	async updateLive(editor: Editor, file: TFile) {
+		if (!this.sidebar?.isVisible || this.app.workspace.getActiveFile()?.path !== file.path) return;
+		const updateId = ++this.liveUpdateId;
+		try {
+			let results: SimilarNoteResult[];
+			let passage: PassageQuery | undefined;
+			if (this.settings.liveMode === 'paragraph') {
+				passage = editorPassage(editor) ?? undefined;
+				if (!passage) return;
+				results = await this.rankSimilarToPassage(file, passage);
+			} else {
+				results = await this.rankSimilarToDraft(file, editor.getValue());
+			}
+			// Typing went on while this update was ranked
+			if (updateId !== this.liveUpdateId) return;
+			this.sidebar?.updateResults(file, results, passage);
+		} catch (error) {
+			console.error('Thread of Ariadne: Live update failed', error);
+		}
+	}
+	
+	// Update or create the sidebar with results
+	async showInSidebar(currentFile: TFile, results: SimilarNoteResult[], passage?: PassageQuery) {
+		if (this.sidebar) {
+			if (!this.sidebar.isVisible) {
+				await this.activateSidebar();
+			}
+			
+			this.sidebar.updateResults(currentFile, results, passage);
+		} else {
+			await this.activateSidebar();
+			
+			// A small delay to ensure the sidebar is created
+			setTimeout(() => {
+				if (this.sidebar) {
+					this.sidebar.updateResults(currentFile, results, passage);
+				}
+			}, 300);
+		}
+	}
+	
+	// Notes worth scoring against `vector`. Large vaults are narrowed down with the
+	// approximate nearest-neighbour index; passage-level scoring then re-ranks them.
+	// The ANN index only covers the space lookups read from, and knows nothing of
+	// scopes, so the notes in a scope are scanned exhaustively instead.
+	*candidateNotes(vector: ArrayLike<number>, limit: number, space = this.store.space, filter: FilterMatcher | null = null): IterableIterator<[string, EmbeddingCacheItem]> {
+		if (filter) {
+			for (const [path, item] of this.store.entries(space)) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile && filter.matches(file)) yield [path, item];
+			}
+			return;
+		}
+		
+		const paths = this.settings.approximateSearch && this.store.size >= APPROXIMATE_SEARCH_MIN_NOTES && space === this.store.space
+			? this.neighbours.nearest(vector, Math.max(limit * ANN_CANDIDATE_FACTOR, ANN_MIN_CANDIDATES))
+			: null;
+		if (!paths) {
+			yield* this.store.entries(space);
+			return;
+		}
+		
+		for (const path of paths) {
+			const item = this.store.get(path);
+			if (item) yield [path, item];
+		}
+	}
+	
+	// Rank indexed notes by similarity to `currentFile`. Only the current note is
+	// embedded on demand; every other note is read from the background index.
+	async rankSimilarNotes(currentFile: TFile, limit = this.settings.numSimilarNotes, scope = this.activeScope(), minScore = this.settings.minSimilarityScore): Promise<SimilarNoteResult[]> {
+		await this.indexer.indexNow(currentFile);
+		// A note edited while a new model is being indexed may only have vectors
+		// in the new space, so it is compared with the notes re-indexed so far
+		const space = this.store.get(currentFile.path) ? this.store.space : this.store.writeSpace;
+		const currentEmbedding = this.store.get(currentFile.path, space);
+		if (!currentEmbedding) return [];
+		
+		const keywordScores = this.lexical.keywordScores(this.lexical.termsOf(currentFile.path) ?? new Map());
+		return this.rankCandidates(currentFile, currentEmbedding.embedding, keywordScores, limit, scope,
+			embedding => this.compareNotes(currentEmbedding, embedding), space, minScore);
+	}
+	
+	// Rank indexed notes by similarity to one passage of `currentFile`, such as the
+	// selected text. Tags, links and folder still count for the whole note.
+	async rankSimilarToPassage(currentFile: TFile, passage: PassageQuery, limit = this.settings.numSimilarNotes, scope = this.activeScope()): Promise<SimilarNoteResult[]> {
+		const { provider, space } = this.queryTarget();
+		const vector = await this.getEmbedding(passage.text, provider);
+		const keywordScores = this.lexical.keywordScores(this.lexical.countTerms(passage.text));
+		const sourcePassage: PassageMatch = { heading: '', start: passage.start, end: passage.end };
+		return this.rankCandidates(currentFile, vector, keywordScores, limit, scope, (embedding) => {
+			const best = this.bestPassage(vector, embedding);
+			return { score: best?.score ?? 0, sourcePassage, matchedPassage: best?.passage };
+		}, space);
+	}
+	
+	// Rank indexed notes by similarity to the unsaved text of `currentFile`
+	async rankSimilarToDraft(currentFile: TFile, content: string, limit = this.settings.numSimilarNotes, scope = this.activeScope()): Promise<SimilarNoteResult[]> {
+		const target = this.queryTarget();
+		const draft = await this.embedDraft(currentFile, content, target);
+		if (!draft) return [];
+		
+		const keywordScores = this.lexical.keywordScores(this.lexical.countTerms(content));
+		return this.rankCandidates(currentFile, draft.embedding, keywordScores, limit, scope,
+			embedding => this.compareNotes(draft, embedding), target.space);
+	}
+	
+	// Score the notes near `vector` against the current note with `match`, and
+	// fuse the result with the keyword, tag, link and folder signals
+	rankCandidates(
+		currentFile: TFile,
+		vector: ArrayLike<number>,
+		keywordScores: Map<string, number>,
+		limit: number,
+		scope: SimilarityScope | null,
+		match: (embedding: EmbeddingCacheItem) => { score: number; sourcePassage?: PassageMatch; matchedPassage?: PassageMatch },
+		space = this.store.space,
+		minScore = this.settings.minSimilarityScore
+	): SimilarNoteResult[] {
+		const filter = scope ? new FilterMatcher(this.app, scope) : null;
+		const currentTags = this.noteTags(currentFile);
+		const currentLinks = this.noteLinks(currentFile.path);
+		
+		const results: SimilarNoteResult[] = [];
+		for (const [path, embedding] of this.hybridCandidates(vector, keywordScores, limit, space, filter)) {
+			// Skip the current file and ignored files
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || file.path === currentFile.path || this.shouldIgnoreFile(file)) {
+				continue;
+			}
+			if (filter && !filter.matches(file)) {
+				continue;
+			}
+			
+			// Notes that are already linked are flagged, or left out entirely
+			const status = linkStatus(this.app, currentFile, file);
+			if (this.settings.hideLinkedNotes && status !== 'unlinked') {
+				continue;
+			}
+			
+			const result = match(embedding);
+			results.push({
+				file,
+				...result,
+				linkStatus: status,
+				components: {
+					semantic: Math.max(0, result.score),
+					keyword: keywordScores.get(path) ?? 0,
+					tags: overlap(currentTags, this.noteTags(file)),
+					links: overlap(currentLinks, this.noteLinks(path)),
+					folder: folderProximity(currentFile.path, path)
+				}
+			});
+		}
+		
+		return this.fuseResults(results, limit, minScore);
+	}
+	
+	// The passage of a note closest to `vector`
+	bestPassage(vector: ArrayLike<number>, embedding: EmbeddingCacheItem): { score: number; passage: PassageMatch } | null {
+		let best: { score: number; passage: PassageMatch } | null = null;
+		for (const chunk of embedding.chunks) {
+			const score = cosineSimilarity(vector, chunk.embedding);
+			if (!best || score > best.score) {
+				const { heading, start, end } = chunk;
+				best = { score, passage: { heading, start, end } };
+			}
+		}
+		return best;
+	}
+	
+	// Rank indexed notes by how well their best passage, and their keywords, match a free-text query
+	async searchNotes(query: string, limit: number, scope: SimilarityScope | null = null, minScore = 0): Promise<SimilarNoteResult[]> {
+		const { provider, space } = this.queryTarget();
+		const queryEmbedding = await this.getEmbedding(query, provider);
+		return this.rankQuery(query, queryEmbedding, space, limit, scope, minScore);
+	}
+	
+	// searchNotes for a query already embedded in `space`
+	rankQuery(query: string, queryEmbedding: number[], space: string, limit: number, scope: SimilarityScope | null = null, minScore = 0): SimilarNoteResult[] {
+		const keywordScores = this.lexical.keywordScores(this.lexical.countTerms(query));
+		const filter = scope ? new FilterMatcher(this.app, scope) : null;
+		
+		const results: SimilarNoteResult[] = [];
+		for (const [path, embedding] of this.hybridCandidates(queryEmbedding, keywordScores, limit, space, filter)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || this.shouldIgnoreFile(file)) {
+				continue;
+			}
+			if (filter && !filter.matches(file)) {
+				continue;
+			}
+			
+			const best = this.bestPassage(queryEmbedding, embedding);
+			if (best) {
+				results.push({
+					file,
+					score: best.score,
+					matchedPassage: best.passage,
+					components: { semantic: Math.max(0, best.score), keyword: keywordScores.get(path) ?? 0, tags: 0, links: 0, folder: 0 }
+				});
+			}
+		}
+		
+		return this.fuseResults(results, limit, minScore);
+	}
+	
+	// The nearest notes by embedding, plus the best keyword matches, which embeddings
+	// tend to miss when notes share a rare name or project code
+	hybridCandidates(vector: ArrayLike<number>, keywordScores: Map<string, number>, limit: number, space = this.store.space, filter: FilterMatcher | null = null): Map<string, EmbeddingCacheItem> {
+		const candidates = new Map(this.candidateNotes(vector, limit, space, filter));
+		const keywordMatches = Array.from(keywordScores.entries())
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, Math.max(limit * ANN_CANDIDATE_FACTOR, ANN_MIN_CANDIDATES));
+		for (const [path] of keywordMatches) {
+			const item = this.store.get(path, space);
+			if (item) candidates.set(path, item);
+		}
+		return candidates;
+	}
+	
+	// Replace each result's score with the fused score of its components, then keep the best
+	fuseResults(results: SimilarNoteResult[], limit: number, minScore: number): SimilarNoteResult[] {
+		const scores = fuseScores(results.map(result => result.components as ScoreComponents), this.rankingWeights(), this.settings.rankingMode);
+		results.forEach((result, i) => result.score = scores[i]);
+		
+		return results
+			.filter(result => result.score >= minScore)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+	
+	rankingWeights(): RankingWeights {
+		return {
+			semantic: this.settings.semanticWeight,
+			keyword: this.settings.keywordWeight,
+			tags: this.settings.tagWeight,
+			links: this.settings.linkWeight,
+			folder: this.settings.folderWeight
+		};
+	}
+	
+	noteTags(file: TFile): Set<string> {
+		const cache = this.app.metadataCache.getFileCache(file);
+		return new Set((cache ? getAllTags(cache) ?? [] : []).map(tag => tag.toLowerCase()));
+	}
+	
+	noteLinks(path: string): Set<string> {
+		return new Set(Object.keys(this.app.metadataCache.resolvedLinks[path] ?? {}));
+	}
+	
+	async activateSidebar() {
+		const { workspace } = this.app;
+		
+		// Check if the view is already open
+		const existingLeaf = workspace.getLeavesOfType(SIMILAR_NOTES_VIEW_TYPE)[0];
+		if (existingLeaf) {
+			workspace.revealLeaf(existingLeaf);
+			return;
+		}
+		
+		const leaf = workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({
+				type: SIMILAR_NOTES_VIEW_TYPE,
+				active: true,
+			});
+			workspace.revealLeaf(leaf);
+		}
+	}
+	
+	// Keep "not a duplicate" marks attached to notes that are renamed or moved
+	async renameDismissedDuplicates(oldPath: string, newPath: string) {
+		const renamed = renameDuplicateKeys(this.settings.dismissedDuplicates, oldPath, newPath);
+		if (renamed) {
+			this.settings.dismissedDuplicates = renamed;
+			await this.saveSettings();
+		}
+	}
+	
+	async showTopicClusters() {
+		const notice = new Notice('Thread of Ariadne: Grouping notes into topics...', 0);
+		try {
+			const clusters = await findTopicClusters(this, this.settings.clusterCount);
+			if (clusters.length === 0) {
+				new Notice('Thread of Ariadne: Not enough indexed notes to group into topics');
+				return;
+			}
+			new TopicClusterModal(this.app, this, clusters).open();
+		} catch (error) {
+			console.error('Thread of Ariadne: Error grouping notes into topics', error);
+			new Notice('Thread of Ariadne: Error grouping notes into topics');
+		} finally {
+			notice.hide();
+		}
+	}
+	
+	// Reveal the view of `viewType`, opening it in a new tab if needed
+	async activateTabView(viewType: string): Promise<View> {
+		const { workspace } = this.app;
+		
+		const existingLeaf = workspace.getLeavesOfType(viewType)[0];
+		if (existingLeaf) {
+			workspace.revealLeaf(existingLeaf);
+			return existingLeaf.view;
+		}
+		
+		const leaf = workspace.getLeaf('tab');
+		await leaf.setViewState({
+			type: viewType,
+			active: true,
+		});
+		workspace.revealLeaf(leaf);
+		return leaf.view;
+	}
+}
+
+const LINK_STATUS_ICONS: Record<LinkStatus, string> = {
+	outgoing: 'arrow-right',
+	backlink: 'arrow-left',
+	mutual: 'arrow-left-right',
+	unlinked: ''
+};
+
+const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+	outgoing: 'Already linked from this note',
+	backlink: 'Links to this note',
+	mutual: 'Linked in both directions',
+	unlinked: ''
+};
+
+class SimilarNotesSidebar extends ItemView {
+	plugin: ThreadOfAriadne;
+	isVisible: boolean = false;
+	
+	constructor(leaf: WorkspaceLeaf, plugin: ThreadOfAriadne) {
+		super(leaf);
 		this.plugin = plugin;
 		this.isVisible = true;
 	}
@@ -737,7 +1329,7 @@ class SimilarNotesSidebar extends ItemView {
 		return 'git-fork';
 	}
 	
-	updateResults(currentFile: TFile, results: SimilarNoteResult[]) {
+	updateResults(currentFile: TFile, results: SimilarNoteResult[], passage?: PassageQuery) {
 		const contentEl = this.containerEl.querySelector('.view-content');
 		if (!contentEl) return;
 		
@@ -747,17 +1339,47 @@ class SimilarNotesSidebar extends ItemView {
 		
 		// Create header
 		const header = container.createEl('h3', {
-			text: `Notes Similar to: ${currentFile.basename}`,
+			text: passage ? `Notes Similar to a Passage of: ${currentFile.basename}` : `Notes Similar to: ${currentFile.basename}`,
 		});
+		if (passage) {
+			container.createDiv({ cls: 'thread-of-ariadne-query-passage', text: passage.text });
+		}
 		
 		// Add indicator for embedding type being used
 		const embeddingType = container.createEl('div', {
 			cls: 'thread-of-ariadne-embedding-type',
-			text: this.plugin.settings.useGeminiEmbeddings 
-				? '🧠 Using Gemini embeddings'
+			text: this.plugin.settings.embeddingProvider !== LOCAL_PROVIDER_ID
+				? `🧠 Using ${this.plugin.getProvider().name} embeddings`
 				: '🧮 Using local embeddings'
 		});
 		
+		// Switch the scope results are drawn from
+		if (this.plugin.settings.scopes.length > 0) {
+			const scopeSelect = container.createEl('select', { cls: 'dropdown thread-of-ariadne-scope' });
+			scopeSelect.createEl('option', { text: 'All notes', value: '' });
+			for (const scope of this.plugin.settings.scopes) {
+				scopeSelect.createEl('option', { text: scope.name, value: scope.name });
+			}
+			scopeSelect.value = this.plugin.activeScope()?.name ?? '';
+			scopeSelect.addEventListener('change', async () => {
+				this.plugin.settings.activeScope = scopeSelect.value;
+				await this.plugin.saveSettings();
+				if (passage) {
+					await this.plugin.findSimilarToPassage(currentFile, passage);
+				} else {
+					await this.plugin.findSimilarNotes(currentFile);
+				}
+			});
+		}
+		
+		// Results only cover notes indexed so far
+		if (this.plugin.indexer.isIndexing()) {
+			container.createEl('div', {
+				cls: 'thread-of-ariadne-embedding-type',
+				text: `⏳ Indexing in progress (${this.plugin.indexer.processed}/${this.plugin.indexer.total}), results may be incomplete`
+			});
+		}
+		
 		if (results.length === 0) {
 			container.createEl('p', {
 				text: 'No similar notes found matching your criteria.',
@@ -765,15 +1387,45 @@ class SimilarNotesSidebar extends ItemView {
 			return;
 		}
 		
+		// Bulk action: link every result above the threshold that is not linked yet
+		const threshold = this.plugin.settings.linkAllThreshold;
+		const linkAllButton = container.createEl('button', {
+			cls: 'thread-of-ariadne-link-all',
+			text: `Link all above ${(threshold * 100).toFixed(0)}%`,
+		});
+		linkAllButton.addEventListener('click', async () => {
+			const targets = results
+				.filter(result => result.score >= threshold)
+				.filter(result => !hasOutgoingLink(this.app, currentFile, result.file))
+				.map(result => result.file);
+			if (targets.length === 0) {
+				new Notice('Thread of Ariadne: All notes above the threshold are already linked');
+				return;
+			}
+			const added = await appendLinksUnderHeading(this.app, currentFile, targets, this.plugin.settings.relatedHeading);
+			new Notice(`Thread of Ariadne: Added ${added} link${added === 1 ? '' : 's'} to ${currentFile.basename}`);
+		});
+		
 		// Create results list
 		const list = container.createEl('ul', { cls: 'thread-of-ariadne-list' });
 		
 		for (const result of results) {
 			const item = list.createEl('li', { cls: 'thread-of-ariadne-item' });
 			
+			// Dragging a result into the editor drops a link to it
+			item.draggable = true;
+			item.addEventListener('dragstart', (e) => {
+				e.dataTransfer?.setData('text/plain', linkTo(this.app, result.file, currentFile));
+			});
+			
+			// Canvases, PDFs and images are marked with an icon of their type
+			if (fileKind(result.file) !== 'note') {
+				setIcon(item.createSpan({ cls: 'thread-of-ariadne-file-icon' }), fileIcon(result.file));
+			}
+			
 			const link = item.createEl('a', {
 				cls: 'thread-of-ariadne-link',
-				text: result.file.basename,
+				text: displayName(result.file),
 			});
 			
 			link.addEventListener('click', (e) => {
@@ -781,6 +1433,43 @@ class SimilarNotesSidebar extends ItemView {
 				this.app.workspace.openLinkText(result.file.path, '', false);
 			});
 			
+			// Flag notes that are already part of the link graph
+			if (result.linkStatus && result.linkStatus !== 'unlinked') {
+				const flag = item.createSpan({
+					cls: 'thread-of-ariadne-link-status',
+					attr: {
+						'aria-label': LINK_STATUS_LABELS[result.linkStatus],
+						'data-link-status': result.linkStatus
+					}
+				});
+				setIcon(flag, LINK_STATUS_ICONS[result.linkStatus]);
+			}
+			
+			const actions = item.createDiv({ cls: 'thread-of-ariadne-actions' });
+			
+			const insertButton = actions.createEl('button', {
+				cls: 'clickable-icon',
+				attr: { 'aria-label': 'Insert link at cursor' }
+			});
+			setIcon(insertButton, 'link');
+			insertButton.addEventListener('click', () => {
+				if (!insertLinkAtCursor(this.app, currentFile, result.file)) {
+					new Notice(`Thread of Ariadne: Open ${currentFile.basename} in an editor to insert a link`);
+				}
+			});
+			
+			const appendButton = actions.createEl('button', {
+				cls: 'clickable-icon',
+				attr: { 'aria-label': `Add link under "${this.plugin.settings.relatedHeading}"` }
+			});
+			setIcon(appendButton, 'list-plus');
+			appendButton.addEventListener('click', async () => {
+				const added = await appendLinksUnderHeading(this.app, currentFile, [result.file], this.plugin.settings.relatedHeading);
+				if (added === 0) {
+					new Notice(`Thread of Ariadne: ${displayName(result.file)} is already listed under "${this.plugin.settings.relatedHeading}"`);
+				}
+			});
+			
 			// Create score element with styling based on similarity
 			const scoreValue = result.score;
 			let scoreCategory = 'low';
@@ -795,6 +1484,23 @@ class SimilarNotesSidebar extends ItemView {
 				text: `${(scoreValue * 100).toFixed(0)}%`,
 				attr: { 'data-score': scoreCategory }
 			});
+			
+			// Show the passage in the other note that matched best
+			if (result.matchedPassage) {
+				const passageEl = item.createDiv({ cls: 'thread-of-ariadne-passage' });
+				renderPassage(this.app, passageEl, result.file, result.matchedPassage)
+					.catch(error => console.error('Thread of Ariadne: Failed to show the matched passage', error));
+			}
+			
+			// Explanation of the match, built when first expanded
+			const why = item.createEl('details', { cls: 'thread-of-ariadne-why' });
+			why.createEl('summary', { text: 'Why?' });
+			const whyContent = why.createDiv({ cls: 'thread-of-ariadne-why-content' });
+			why.addEventListener('toggle', () => {
+				if (!why.open || whyContent.hasChildNodes()) return;
+				renderExplanation(this.plugin, whyContent, currentFile, result)
+					.catch(error => console.error('Thread of Ariadne: Failed to explain a match', error));
+			});
 		}
 	}
 	
@@ -838,55 +1544,50 @@ class ThreadOfAriadneSettingTab extends PluginSettingTab {
 		// Embedding Model Settings Section
 		containerEl.createEl('h3', { text: 'Embedding Model' });
 
-		new Setting(containerEl)
-			.setName('Use Gemini Embeddings')
-			.setDesc('Use Google Gemini API for high-quality embeddings (requires API key).')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.useGeminiEmbeddings)
-				.onChange(async (value) => {
-					this.plugin.settings.useGeminiEmbeddings = value;
-					await this.plugin.saveSettings();
-				}));
+		const providerDefinition = getProviderDefinition(this.plugin.settings.embeddingProvider);
 
-		const apiKeySetting = new Setting(containerEl)
-			.setName('Gemini API Key')
-			.setDesc('Your Google API key for accessing the Gemini embeddings API.')
-			.addText(text => {
-				text.setPlaceholder('Enter your API key')
-					.setValue(this.plugin.settings.apiKey)
+		new Setting(containerEl)
+			.setName('Embedding Provider')
+			.setDesc(providerDefinition.description)
+			.addDropdown(dropdown => {
+				for (const definition of EMBEDDING_PROVIDERS) {
+					dropdown.addOption(definition.id, definition.name);
+				}
+				dropdown
+					.setValue(providerDefinition.id)
 					.onChange(async (value) => {
-						this.plugin.settings.apiKey = value;
+						this.plugin.settings.embeddingProvider = value;
 						await this.plugin.saveSettings();
+						// Notes without vectors from the new provider need to be embedded
+						this.plugin.getProvider();
+						this.plugin.indexer.start();
+						// Re-render to show the selected provider's options
+						this.display();
 					});
-				// Use password field to hide the API key
-				text.inputEl.type = 'password';
-				text.inputEl.setAttribute('autocomplete', 'off');
-				text.inputEl.setAttribute('autocorrect', 'off');
-				text.inputEl.setAttribute('autocapitalize', 'off');
-				text.inputEl.setAttribute('spellcheck', 'false');
 			});
 
-		// Link to get an API key
-		const apiKeyDescription = containerEl.createEl('div', {
-			cls: 'setting-item-description',
-			text: 'You can get a Gemini API key from: '
-		});
-		apiKeyDescription.createEl('a', {
-			text: 'Google AI Studio',
-			href: 'https://makersuite.google.com/app/apikey'
-		}).setAttribute('target', '_blank');
-		
-		// API rate limit setting
+		if (providerDefinition.id === LOCAL_PROVIDER_ID) {
+			this.displayLocalSettings(containerEl);
+		} else if (providerDefinition.id === 'gemini') {
+			this.displayGeminiSettings(containerEl);
+		} else if (providerDefinition.id === 'openai') {
+			this.displayOpenAISettings(containerEl);
+		} else if (providerDefinition.id === 'ollama') {
+			this.displayOllamaSettings(containerEl);
+		}
+
+		this.displayMigration(containerEl);
+
 		new Setting(containerEl)
-			.setName('API Rate Limit')
-			.setDesc('Maximum Gemini API calls per minute (to avoid quota exhaustion)')
-			.addSlider(slider => slider
-				.setLimits(10, 100, 5)
-				.setValue(this.plugin.settings.rateLimitPerMinute || 30)
-				.setDynamicTooltip()
-				.onChange(async (value) => {
-					this.plugin.settings.rateLimitPerMinute = value;
-					await this.plugin.saveSettings();
+			.setName('Test Connection')
+			.setDesc('Check that the selected provider is reachable and returns embeddings.')
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(async () => {
+					button.setDisabled(true);
+					const health = await this.plugin.getProvider().checkHealth();
+					button.setDisabled(false);
+					new Notice(`Thread of Ariadne: ${health.ok ? '✅' : '❌'} ${health.message}`);
 				}));
 
 		containerEl.createEl('h3', { text: 'Similarity Settings' });
@@ -915,6 +1616,340 @@ class ThreadOfAriadneSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Passage Size')
+			.setDesc('Maximum number of characters per embedded passage. Notes are split at headings and paragraphs.')
+			.addSlider(slider => slider
+				.setLimits(200, 4000, 100)
+				.setValue(this.plugin.settings.chunkSize)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.chunkSize = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Passage Scoring')
+			.setDesc('How passage matches are combined into a note score.')
+			.addDropdown(dropdown => dropdown
+				.addOption('top-k-mean', 'Mean of the best matches')
+				.addOption('max', 'Best single match')
+				.setValue(this.plugin.settings.chunkAggregation)
+				.onChange(async (value) => {
+					this.plugin.settings.chunkAggregation = value as ChunkAggregation;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.chunkAggregation === 'top-k-mean') {
+			new Setting(containerEl)
+				.setName('Passages to Average')
+				.setDesc('Number of best passage matches averaged into the note score.')
+				.addSlider(slider => slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.chunkTopK)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.chunkTopK = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Approximate Search')
+			.setDesc(`For vaults with more than ${APPROXIMATE_SEARCH_MIN_NOTES} notes, look up candidates in a nearest-neighbour index instead of comparing every note. Much faster, very rarely misses a match.`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.approximateSearch)
+				.onChange(async (value) => {
+					this.plugin.settings.approximateSearch = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Ranking' });
+
+		new Setting(containerEl)
+			.setName('Ranking Mode')
+			.setDesc('How the semantic score is combined with keyword (BM25), tag, link and folder signals.')
+			.addDropdown(dropdown => dropdown
+				.addOption('weighted', 'Weighted sum')
+				.addOption('rrf', 'Reciprocal rank fusion')
+				.setValue(this.plugin.settings.rankingMode)
+				.onChange(async (value) => {
+					this.plugin.settings.rankingMode = value as RankingMode;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: 'With a weighted sum and a semantic weight of 1, the other signals raise the embedding similarity of notes that also share keywords, tags, links or a folder. With rank fusion, scores reflect how high a note ranks on each signal, so a lower minimum similarity score may be needed. Set a weight to 0 to ignore a signal.'
+		});
+
+		const weightSettings: ['semanticWeight' | 'keywordWeight' | 'tagWeight' | 'linkWeight' | 'folderWeight', string, string][] = [
+			['semanticWeight', 'Semantic Weight', 'Similarity of the best-matching passages.'],
+			['keywordWeight', 'Keyword Weight', 'BM25 keyword match, which catches shared rare names and project codes.'],
+			['tagWeight', 'Tag Weight', 'Share of tags the notes have in common.'],
+			['linkWeight', 'Link Weight', 'Share of outgoing links the notes have in common.'],
+			['folderWeight', 'Folder Weight', 'How close the notes are in the folder tree.']
+		];
+		for (const [key, name, desc] of weightSettings) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addSlider(slider => slider
+					.setLimits(0, 1, 0.05)
+					.setValue(this.plugin.settings[key])
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings[key] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		containerEl.createEl('h3', { text: 'Text Preprocessing' });
+
+		containerEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: 'How notes are cleaned up before they are embedded. Changes re-index the vault in the background. A single note can override any of these with an "ariadne" property, e.g. "ariadne: { titleWeight: 0, dropCodeBlocks: false }".'
+		});
+
+		new Setting(containerEl)
+			.setName('Keep Frontmatter')
+			.setDesc('Embed the note properties as a passage of their own.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.keepFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.keepFrontmatter = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Drop Code Blocks')
+			.setDesc('Leave fenced code blocks out of the embedded text. Dataview queries are always left out.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dropCodeBlocks)
+				.onChange(async (value) => {
+					this.plugin.settings.dropCodeBlocks = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Resolve Embeds')
+			.setDesc('Replace ![[embeds]] of other notes with the text they show.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.resolveEmbeds)
+				.onChange(async (value) => {
+					this.plugin.settings.resolveEmbeds = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Title Weight')
+			.setDesc('How many times the note title is repeated in front of each passage. Higher values make titles count for more than body text.')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.titleWeight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.titleWeight = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Heading Weight')
+			.setDesc('How many times the headings above a passage are repeated in front of it.')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.headingWeight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.headingWeight = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestReindex();
+				}));
+
+		new Setting(containerEl)
+			.setName('Concept Map File')
+			.setDesc('Vault file listing words that mean the same across languages, one concept per line, e.g. "meeting: 会议, 会議, 회의". Used by the local keyword model on top of its built-in English, Chinese and Japanese concepts.')
+			.addText(text => text
+				.setPlaceholder('Ariadne concepts.md')
+				.setValue(this.plugin.settings.conceptMapPath)
+				.onChange(async (value) => {
+					this.plugin.settings.conceptMapPath = value.trim();
+					await this.plugin.saveSettings();
+					this.plugin.requestConceptMapReload();
+				}));
+
+		containerEl.createEl('h3', { text: 'File Types' });
+
+		const fileTypeSettings: ['indexCanvases' | 'indexPdfs' | 'indexImages', string, string][] = [
+			['indexCanvases', 'Index Canvases', 'Include the text cards and group labels of canvases.'],
+			['indexPdfs', 'Index PDFs', 'Include the text layer of PDFs, up to 200 pages each. Scanned PDFs without a text layer contribute nothing.'],
+			['indexImages', 'Index Images', 'Include images by their alt text and the caption line below them, wherever notes embed them.']
+		];
+		for (const [key, name, desc] of fileTypeSettings) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings[key])
+					.onChange(async (value) => {
+						this.plugin.settings[key] = value;
+						await this.plugin.saveSettings();
+						// Drop or count the terms of the affected files, then embed new ones
+						await this.plugin.syncLexicalIndex();
+						this.plugin.requestReindex();
+					}));
+		}
+
+		containerEl.createEl('h3', { text: 'Linking' });
+
+		new Setting(containerEl)
+			.setName('Related Heading')
+			.setDesc('Heading that links added from the sidebar are listed under. It is created at the end of the note if missing. Prefix with #s to choose the level, e.g. "### Related".')
+			.addText(text => text
+				.setPlaceholder('Related')
+				.setValue(this.plugin.settings.relatedHeading)
+				.onChange(async (value) => {
+					this.plugin.settings.relatedHeading = value.trim() || DEFAULT_SETTINGS.relatedHeading;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Hide Linked Notes')
+			.setDesc('Leave notes that already link to or from the current note out of the results, so only undiscovered connections are shown. When off, linked notes are flagged with an arrow.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hideLinkedNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.hideLinkedNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link All Threshold')
+			.setDesc('Minimum similarity for the "Link all" button in the sidebar. Notes that are already linked are skipped.')
+			.addSlider(slider => slider
+				.setLimits(0.5, 1.0, 0.05)
+				.setValue(this.plugin.settings.linkAllThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.linkAllThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Live Mode' });
+
+		new Setting(containerEl)
+			.setName('Live Mode')
+			.setDesc('Update the sidebar while you type, without waiting for the note to be saved and re-indexed. Follow the whole note, or only the paragraph at the cursor.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('note', 'Whole note')
+				.addOption('paragraph', 'Current paragraph')
+				.setValue(this.plugin.settings.liveMode)
+				.onChange(async (value) => {
+					this.plugin.settings.liveMode = value as LiveMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Live Mode Delay')
+			.setDesc('Seconds without typing before live results update. Every update embeds the changed text, so remote providers use more quota with shorter delays.')
+			.addSlider(slider => slider
+				.setLimits(0.5, 10, 0.5)
+				.setValue(this.plugin.settings.liveModeDelay / 1000)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.liveModeDelay = value * 1000;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Semantic Link Suggestions')
+			.setDesc('When you type "[[", suggest the notes most similar to the paragraph you are writing. Obsidian\'s usual suggestions take over once what you type matches none of them.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.semanticLinkSuggest)
+				.onChange(async (value) => {
+					this.plugin.settings.semanticLinkSuggest = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Topics' });
+
+		new Setting(containerEl)
+			.setName('Number of Topics')
+			.setDesc('How many topics the "Group notes into topics" command divides the vault into. Set to 0 to choose from the number of notes.')
+			.addSlider(slider => slider
+				.setLimits(0, 50, 1)
+				.setValue(this.plugin.settings.clusterCount)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.clusterCount = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Topic Notes Folder')
+			.setDesc('Folder for the map-of-content note written for each topic. Topic notes from earlier runs are updated wherever they are.')
+			.addText(text => text
+				.setPlaceholder('Topics')
+				.setValue(this.plugin.settings.clusterFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.clusterFolder = value.trim() || DEFAULT_SETTINGS.clusterFolder;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Duplicates' });
+
+		new Setting(containerEl)
+			.setName('Duplicate Threshold')
+			.setDesc('Minimum similarity of two whole notes for "Find duplicate notes" to report them.')
+			.addSlider(slider => slider
+				.setLimits(0.8, 1.0, 0.01)
+				.setValue(this.plugin.settings.duplicateThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.duplicateThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Dismissed Duplicates')
+			.setDesc(`${this.plugin.settings.dismissedDuplicates.length} pairs are marked as not duplicates and left out of the report.`)
+			.addButton(button => button
+				.setButtonText('Clear')
+				.setDisabled(this.plugin.settings.dismissedDuplicates.length === 0)
+				.onClick(async () => {
+					this.plugin.settings.dismissedDuplicates = [];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		containerEl.createEl('h3', { text: 'Scopes' });
+
+		containerEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: 'Scopes limit which notes similar notes are drawn from, and are switched from the dropdown in the sidebar. Separate multiple values with commas. Folders and globs (* within a folder, ** across folders) select notes by path; tags such as "#literature" require one of them and "-#daily" excludes a tag; properties are written "key", "key=value" or "-key=value"; dates are YYYY-MM-DD or ages such as 30d, 6w, 3m or 1y.'
+		});
+
+		this.plugin.settings.scopes.forEach((scope, index) => this.displayScope(containerEl, scope, index));
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add scope')
+				.onClick(async () => {
+					const names = new Set(this.plugin.settings.scopes.map(scope => scope.name));
+					let name = 'New scope';
+					for (let i = 2; names.has(name); i++) name = `New scope ${i}`;
+					this.plugin.settings.scopes.push({ name, ...EMPTY_FILTER });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		containerEl.createEl('h3', { text: 'Cache Settings' });
 
 		new Setting(containerEl)
@@ -932,7 +1967,7 @@ class ThreadOfAriadneSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Cache Expiration (Days)')
-			.setDesc('Number of days after which cached embeddings expire.')
+			.setDesc('Number of days to keep embeddings of deleted or edited passages, so that undone changes do not need to be re-embedded.')
 			.addSlider(slider => slider
 				.setLimits(1, 30, 1)
 				.setValue(this.plugin.settings.cacheExpiration)
@@ -944,27 +1979,261 @@ class ThreadOfAriadneSettingTab extends PluginSettingTab {
 
 		const clearCacheButton = new Setting(containerEl)
 			.setName('Clear Embedding Cache')
-			.setDesc('Clear all cached embeddings. This will force recalculation of embeddings.')
+			.setDesc('Clear all cached embeddings. The vault is then re-indexed in the background.')
 			.addButton(button => button
 				.setButtonText('Clear Cache')
 				.onClick(async () => {
-					this.plugin.embeddings.clear();
-					await this.plugin.saveEmbeddingCache();
-					new Notice('Thread of Ariadne: Embedding cache cleared');
+					await this.plugin.indexer.rebuild();
+					new Notice('Thread of Ariadne: Embedding cache cleared, re-indexing in the background');
 				}));
 
+		new Setting(containerEl)
+			.setName('Index File')
+			.setDesc('Vault file the embedding index is exported to and imported from. Export on one device and import on another, or share it with others using the vault, so that notes need not be embedded again.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.indexFilePath)
+				.setValue(this.plugin.settings.indexFilePath)
+				.onChange(async (value) => {
+					this.plugin.settings.indexFilePath = value.trim() || DEFAULT_SETTINGS.indexFilePath;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Export')
+				.onClick(() => this.plugin.exportIndex()))
+			.addButton(button => button
+				.setButtonText('Import')
+				.onClick(() => this.plugin.importIndex()));
+
 		// Display mode information
 		containerEl.createEl('div', {
 			cls: 'setting-item-description',
-			text: this.plugin.settings.useGeminiEmbeddings
-				? 'Using Gemini embeddings for high-quality semantic similarity with enhanced multilingual support.'
-				: 'Using local embedding method with basic multilingual support (works offline).'
+			text: this.plugin.settings.embeddingProvider !== LOCAL_PROVIDER_ID
+				? `Using ${this.plugin.getProvider().name} embeddings for high-quality semantic similarity with enhanced multilingual support.`
+				: 'Using the local TF-IDF keyword model (works offline). Keyword similarity scores run lower than those of neural models, so consider lowering the minimum similarity score.'
 		});
 
 		// Add note about multilingual performance
 		containerEl.createEl('div', {
 			cls: 'setting-item-description thread-of-ariadne-multilingual-note',
-			text: 'For best results with multilingual content, especially between different writing systems like English and Chinese, enabling Gemini embeddings is strongly recommended.'
+			text: 'For best results with multilingual content, especially between different writing systems like English and Chinese, using a hosted or Ollama embedding model is strongly recommended.'
+		});
+	}
+
+	// Progress of re-indexing for a new model, while the previous index serves lookups
+	displayMigration(containerEl: HTMLElement): void {
+		const { store } = this.plugin;
+		if (!store.pendingSpace) return;
+		const { done, total } = store.migrationProgress();
+		const previous = store.spaceInfo(store.space);
+		const pending = store.spaceInfo(store.pendingSpace);
+
+		new Setting(containerEl)
+			.setName('Re-indexing for New Model')
+			.setDesc(`${done} of ${total} notes have been embedded with ${pending.model}. Until all of them are, similar notes come from the ${previous.model} index. Switching now leaves the remaining notes out of the results until they are embedded.`)
+			.addButton(button => button
+				.setButtonText('Switch now')
+				.onClick(async () => {
+					await this.plugin.finishMigration(true);
+					this.display();
+				}));
+	}
+
+	displayLocalSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Local Vector Size')
+			.setDesc('Length of the vectors the TF-IDF weights are projected to. Larger vectors approximate keyword similarity more closely but take more space.')
+			.addDropdown(dropdown => {
+				for (const size of [128, 256, 512, 1024]) {
+					dropdown.addOption(String(size), String(size));
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.localDimensions))
+					.onChange(async (value) => {
+						this.plugin.settings.localDimensions = Number(value);
+						await this.plugin.saveSettings();
+						// Vectors of the new size live in a vector space of their own
+						this.plugin.getProvider();
+						this.plugin.requestReindex();
+					});
+			});
+	}
+
+	displayScope(containerEl: HTMLElement, scope: SimilarityScope, index: number): void {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName(`Scope ${index + 1}`)
+			.setHeading()
+			.addText(text => text
+				.setPlaceholder('Name')
+				.setValue(scope.name)
+				.onChange(async (value) => {
+					const name = value.trim();
+					if (!name) return;
+					// Keep the sidebar on this scope when it is renamed
+					if (settings.activeScope === scope.name) {
+						settings.activeScope = name;
+					}
+					scope.name = name;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete scope')
+				.onClick(async () => {
+					settings.scopes.splice(index, 1);
+					if (settings.activeScope === scope.name) {
+						settings.activeScope = '';
+					}
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const listFields: ['include' | 'exclude' | 'tags' | 'properties', string, string][] = [
+			['include', 'Include', 'Folders or globs, e.g. "Literature, **/Sources/*". Empty includes every note.'],
+			['exclude', 'Exclude', 'Folders or globs to leave out, e.g. "Daily, Templates".'],
+			['tags', 'Tags', 'e.g. "#literature, -#draft".'],
+			['properties', 'Properties', 'e.g. "type=book, -status=archived".']
+		];
+		for (const [key, name, desc] of listFields) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setValue(scope[key].join(', '))
+					.onChange(async (value) => {
+						scope[key] = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Modified')
+			.setDesc('Only notes modified after and before these dates.')
+			.addText(text => text
+				.setPlaceholder('After')
+				.setValue(scope.modifiedAfter)
+				.onChange(async (value) => {
+					scope.modifiedAfter = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Before')
+				.setValue(scope.modifiedBefore)
+				.onChange(async (value) => {
+					scope.modifiedBefore = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	displayGeminiSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Gemini API Key')
+			.setDesc('Your Google API key for accessing the Gemini embeddings API.')
+			.addText(text => {
+				text.setPlaceholder('Enter your API key')
+					.setValue(this.plugin.settings.apiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.apiKey = value;
+						await this.plugin.saveSettings();
+					});
+				// Use password field to hide the API key
+				text.inputEl.type = 'password';
+				text.inputEl.setAttribute('autocomplete', 'off');
+				text.inputEl.setAttribute('autocorrect', 'off');
+				text.inputEl.setAttribute('autocapitalize', 'off');
+				text.inputEl.setAttribute('spellcheck', 'false');
+			});
+
+		// Link to get an API key
+		const apiKeyDescription = containerEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: 'You can get a Gemini API key from: '
 		});
+		apiKeyDescription.createEl('a', {
+			text: 'Google AI Studio',
+			href: 'https://makersuite.google.com/app/apikey'
+		}).setAttribute('target', '_blank');
+		
+		// API rate limit setting
+		new Setting(containerEl)
+			.setName('API Rate Limit')
+			.setDesc('Maximum Gemini API calls per minute. Each call embeds up to 100 passages. The rate is lowered automatically while the API reports quota errors.')
+			.addSlider(slider => slider
+				.setLimits(10, 100, 5)
+				.setValue(this.plugin.settings.rateLimitPerMinute)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.rateLimitPerMinute = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	displayOpenAISettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Server URL')
+			.setDesc('Base URL of the OpenAI-compatible API, including the version prefix (e.g. https://api.openai.com/v1).')
+			.addText(text => text
+				.setPlaceholder('https://api.openai.com/v1')
+				.setValue(this.plugin.settings.openaiBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+					// Another server may serve other vectors under the same model name
+					this.plugin.requestModelChange();
+				}));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Embedding model name sent with each request.')
+			.addText(text => text
+				.setPlaceholder('text-embedding-3-small')
+				.setValue(this.plugin.settings.openaiModel)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiModel = value.trim();
+					await this.plugin.saveSettings();
+					this.plugin.requestModelChange();
+				}));
+
+		new Setting(containerEl)
+			.setName('API Key')
+			.setDesc('Sent as a Bearer token. Leave empty for servers without authentication.')
+			.addText(text => {
+				text.setPlaceholder('Enter your API key')
+					.setValue(this.plugin.settings.openaiApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiApiKey = value;
+						await this.plugin.saveSettings();
+					});
+				// Use password field to hide the API key
+				text.inputEl.type = 'password';
+				text.inputEl.setAttribute('autocomplete', 'off');
+				text.inputEl.setAttribute('spellcheck', 'false');
+			});
+	}
+
+	displayOllamaSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Ollama URL')
+			.setDesc('Address of the Ollama server.')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434')
+				.setValue(this.plugin.settings.ollamaBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('An embedding model pulled into Ollama, e.g. nomic-embed-text or mxbai-embed-large.')
+			.addText(text => text
+				.setPlaceholder('nomic-embed-text')
+				.setValue(this.plugin.settings.ollamaModel)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaModel = value.trim();
+					await this.plugin.saveSettings();
+					this.plugin.requestModelChange();
+				}));
 	}
 }
\ No newline at end of file
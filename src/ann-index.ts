@@ -0,0 +1,429 @@
+// Approximate nearest-neighbour search over note vectors using a
+// Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016).
+// Vectors are normalised on insert, so similarity is a plain dot product.
+
+export interface AnnMatch {
+	id: string;
+	score: number;
+}
+
+interface Candidate {
+	node: number;
+	score: number;
+}
+
+const MAGIC = 0x4e485241; // "ARHN"
+const FORMAT_VERSION = 1;
+
+// Binary heap ordered by `compare`; the root is the element that sorts first
+class Heap {
+	private items: Candidate[] = [];
+	private compare: (a: Candidate, b: Candidate) => number;
+
+	constructor(compare: (a: Candidate, b: Candidate) => number) {
+		this.compare = compare;
+	}
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	peek(): Candidate | undefined {
+		return this.items[0];
+	}
+
+	push(item: Candidate) {
+		const items = this.items;
+		items.push(item);
+		let i = items.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (this.compare(items[i], items[parent]) >= 0) break;
+			[items[i], items[parent]] = [items[parent], items[i]];
+			i = parent;
+		}
+	}
+
+	pop(): Candidate | undefined {
+		const items = this.items;
+		const top = items[0];
+		const last = items.pop();
+		if (items.length > 0 && last) {
+			items[0] = last;
+			let i = 0;
+			for (;;) {
+				const left = 2 * i + 1;
+				const right = left + 1;
+				let next = i;
+				if (left < items.length && this.compare(items[left], items[next]) < 0) next = left;
+				if (right < items.length && this.compare(items[right], items[next]) < 0) next = right;
+				if (next === i) break;
+				[items[i], items[next]] = [items[next], items[i]];
+				i = next;
+			}
+		}
+		return top;
+	}
+
+	toArray(): Candidate[] {
+		return this.items.slice();
+	}
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = Float32Array.from(vector);
+	let norm = 0;
+	for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+	norm = Math.sqrt(norm);
+	if (norm > 0) {
+		for (let i = 0; i < result.length; i++) result[i] /= norm;
+	}
+	return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+	return sum;
+}
+
+export class HnswIndex {
+	// Vector space the index was built for; vectors from other spaces are rejected
+	space: string;
+	// Maximum neighbours per node on upper layers (layer 0 allows twice as many)
+	readonly M: number;
+	readonly efConstruction: number;
+	efSearch = 64;
+	private levelMultiplier: number;
+
+	private ids: string[] = [];
+	private nodeById: Map<string, number> = new Map();
+	private vectors: Float32Array[] = [];
+	// Note modification time when the vector was inserted, used to detect stale nodes
+	private versions: number[] = [];
+	private deleted: boolean[] = [];
+	private links: number[][][] = [];
+	private entryPoint = -1;
+	private maxLevel = -1;
+	private deletedCount = 0;
+
+	constructor(space: string, M = 12, efConstruction = 64) {
+		this.space = space;
+		this.M = M;
+		this.efConstruction = efConstruction;
+		this.levelMultiplier = 1 / Math.log(M);
+	}
+
+	// Number of live vectors
+	get size(): number {
+		return this.ids.length - this.deletedCount;
+	}
+
+	// Share of nodes that are tombstones; a high ratio degrades search quality
+	get deletedRatio(): number {
+		return this.ids.length === 0 ? 0 : this.deletedCount / this.ids.length;
+	}
+
+	has(id: string): boolean {
+		return this.nodeById.has(id);
+	}
+
+	version(id: string): number | undefined {
+		const node = this.nodeById.get(id);
+		return node === undefined ? undefined : this.versions[node];
+	}
+
+	*liveIds(): IterableIterator<string> {
+		yield* this.nodeById.keys();
+	}
+
+	// Insert a vector, replacing any previous vector with the same id
+	upsert(id: string, vector: ArrayLike<number>, version = 0) {
+		if (vector.length === 0) return;
+		this.remove(id);
+
+		const node = this.ids.length;
+		const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+		const normalized = normalize(vector);
+		this.ids.push(id);
+		this.vectors.push(normalized);
+		this.versions.push(version);
+		this.deleted.push(false);
+		this.links.push(Array.from({ length: level + 1 }, () => []));
+		this.nodeById.set(id, node);
+
+		if (this.entryPoint < 0) {
+			this.entryPoint = node;
+			this.maxLevel = level;
+			return;
+		}
+
+		// Greedy descent through the layers above the new node's level
+		let current = this.entryPoint;
+		for (let layer = this.maxLevel; layer > level; layer--) {
+			current = this.greedyClosest(normalized, current, layer);
+		}
+
+		// Connect the node on every layer it belongs to
+		let entryPoints = [current];
+		for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+			const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer);
+			const maxLinks = layer === 0 ? this.M * 2 : this.M;
+			const neighbours = this.selectNeighbours(candidates, maxLinks);
+			this.links[node][layer] = neighbours.map(c => c.node);
+
+			for (const neighbour of neighbours) {
+				const neighbourLinks = this.links[neighbour.node][layer];
+				neighbourLinks.push(node);
+				if (neighbourLinks.length > maxLinks) {
+					// Shrinking existing nodes keeps their closest links; the full
+					// heuristic is only worth its cost for the new node
+					this.links[neighbour.node][layer] = neighbourLinks
+						.map(n => ({ node: n, score: dot(this.vectors[neighbour.node], this.vectors[n]) }))
+						.sort((a, b) => b.score - a.score)
+						.slice(0, maxLinks)
+						.map(c => c.node);
+				}
+			}
+			entryPoints = candidates.map(c => c.node);
+		}
+
+		if (level > this.maxLevel) {
+			this.maxLevel = level;
+			this.entryPoint = node;
+		}
+	}
+
+	// Mark a vector as deleted. Its node stays in the graph to keep it connected.
+	remove(id: string): boolean {
+		const node = this.nodeById.get(id);
+		if (node === undefined) return false;
+		this.nodeById.delete(id);
+		this.deleted[node] = true;
+		this.deletedCount++;
+		return true;
+	}
+
+	rename(oldId: string, newId: string): boolean {
+		const node = this.nodeById.get(oldId);
+		if (node === undefined) return false;
+		this.nodeById.delete(oldId);
+		this.nodeById.set(newId, node);
+		this.ids[node] = newId;
+		return true;
+	}
+
+	// The `k` most similar live vectors
+	search(vector: ArrayLike<number>, k: number, ef = Math.max(this.efSearch, k)): AnnMatch[] {
+		if (this.entryPoint < 0 || vector.length !== this.vectors[this.entryPoint].length) {
+			return [];
+		}
+
+		const query = normalize(vector);
+		let current = this.entryPoint;
+		for (let layer = this.maxLevel; layer > 0; layer--) {
+			current = this.greedyClosest(query, current, layer);
+		}
+
+		return this.searchLayer(query, [current], ef, 0)
+			.filter(c => !this.deleted[c.node])
+			.sort((a, b) => b.score - a.score)
+			.slice(0, k)
+			.map(c => ({ id: this.ids[c.node], score: c.score }));
+	}
+
+	// Follow the single best link on a layer until no neighbour is closer
+	private greedyClosest(query: Float32Array, start: number, layer: number): number {
+		let current = start;
+		let currentScore = dot(query, this.vectors[current]);
+		let improved = true;
+		while (improved) {
+			improved = false;
+			for (const neighbour of this.links[current][layer] ?? []) {
+				const score = dot(query, this.vectors[neighbour]);
+				if (score > currentScore) {
+					current = neighbour;
+					currentScore = score;
+					improved = true;
+				}
+			}
+		}
+		return current;
+	}
+
+	// Beam search on one layer, returning up to `ef` closest nodes
+	private searchLayer(query: Float32Array, entryPoints: number[], ef: number, layer: number): Candidate[] {
+		const visited = new Set<number>(entryPoints);
+		// Best candidate first
+		const candidates = new Heap((a, b) => b.score - a.score);
+		// Worst result first, so it can be evicted
+		const results = new Heap((a, b) => a.score - b.score);
+
+		for (const node of entryPoints) {
+			const candidate = { node, score: dot(query, this.vectors[node]) };
+			candidates.push(candidate);
+			results.push(candidate);
+		}
+
+		while (candidates.size > 0) {
+			const closest = candidates.pop() as Candidate;
+			const worst = results.peek() as Candidate;
+			if (closest.score < worst.score && results.size >= ef) break;
+
+			for (const neighbour of this.links[closest.node][layer] ?? []) {
+				if (visited.has(neighbour)) continue;
+				visited.add(neighbour);
+
+				const score = dot(query, this.vectors[neighbour]);
+				if (results.size < ef || score > (results.peek() as Candidate).score) {
+					candidates.push({ node: neighbour, score });
+					results.push({ node: neighbour, score });
+					if (results.size > ef) results.pop();
+				}
+			}
+		}
+
+		return results.toArray();
+	}
+
+	// Neighbour selection heuristic: prefer candidates that are closer to the
+	// base node than to any already selected neighbour, which keeps the graph
+	// navigable across clusters
+	private selectNeighbours(candidates: Candidate[], maxLinks: number): Candidate[] {
+		const sorted = candidates.slice().sort((a, b) => b.score - a.score);
+		const selected: Candidate[] = [];
+		for (const candidate of sorted) {
+			if (selected.length >= maxLinks) break;
+			const dominated = selected.some(s => dot(this.vectors[s.node], this.vectors[candidate.node]) > candidate.score);
+			if (!dominated) selected.push(candidate);
+		}
+		// Fill remaining slots with the closest skipped candidates
+		for (const candidate of sorted) {
+			if (selected.length >= maxLinks) break;
+			if (!selected.includes(candidate)) selected.push(candidate);
+		}
+		return selected;
+	}
+
+	// Layout: magic, version, space, M, efConstruction, entry point, max level, node count,
+	// then per node: id, version, deleted flag, dimensions, values, level count, links per level
+	serialize(): ArrayBuffer {
+		const encoder = new TextEncoder();
+		const chunks: ArrayBuffer[] = [];
+		const header = new DataView(new ArrayBuffer(28));
+		header.setUint32(0, MAGIC, true);
+		header.setUint32(4, FORMAT_VERSION, true);
+		header.setUint32(8, this.M, true);
+		header.setUint32(12, this.efConstruction, true);
+		header.setInt32(16, this.entryPoint, true);
+		header.setInt32(20, this.maxLevel, true);
+		header.setUint32(24, this.ids.length, true);
+		chunks.push(header.buffer, this.encodeString(encoder, this.space));
+
+		for (let node = 0; node < this.ids.length; node++) {
+			const vector = this.vectors[node];
+			const links = this.links[node];
+			const size = 8 + 1 + 4 + vector.length * 4 + 1 + links.reduce((sum, l) => sum + 2 + l.length * 4, 0);
+			const view = new DataView(new ArrayBuffer(size));
+			let offset = 0;
+			view.setFloat64(offset, this.versions[node], true);
+			offset += 8;
+			view.setUint8(offset, this.deleted[node] ? 1 : 0);
+			offset += 1;
+			view.setUint32(offset, vector.length, true);
+			offset += 4;
+			for (let i = 0; i < vector.length; i++, offset += 4) {
+				view.setFloat32(offset, vector[i], true);
+			}
+			view.setUint8(offset, links.length);
+			offset += 1;
+			for (const layer of links) {
+				view.setUint16(offset, layer.length, true);
+				offset += 2;
+				for (const link of layer) {
+					view.setUint32(offset, link, true);
+					offset += 4;
+				}
+			}
+			chunks.push(this.encodeString(encoder, this.ids[node]), view.buffer);
+		}
+
+		const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+		const result = new Uint8Array(total);
+		let position = 0;
+		for (const chunk of chunks) {
+			result.set(new Uint8Array(chunk), position);
+			position += chunk.byteLength;
+		}
+		return result.buffer;
+	}
+
+	static deserialize(buffer: ArrayBuffer): HnswIndex {
+		const decoder = new TextDecoder();
+		const view = new DataView(buffer);
+		if (view.getUint32(0, true) !== MAGIC || view.getUint32(4, true) !== FORMAT_VERSION) {
+			throw new Error('Unsupported ANN index file');
+		}
+
+		let offset = 28;
+		const readString = (): string => {
+			const length = view.getUint16(offset, true);
+			offset += 2;
+			const value = decoder.decode(new Uint8Array(buffer, offset, length));
+			offset += length;
+			return value;
+		};
+
+		const index = new HnswIndex(readString(), view.getUint32(8, true), view.getUint32(12, true));
+		index.entryPoint = view.getInt32(16, true);
+		index.maxLevel = view.getInt32(20, true);
+		const count = view.getUint32(24, true);
+
+		for (let node = 0; node < count; node++) {
+			const id = readString();
+			const version = view.getFloat64(offset, true);
+			offset += 8;
+			const deleted = view.getUint8(offset) === 1;
+			offset += 1;
+			const dimensions = view.getUint32(offset, true);
+			offset += 4;
+			const vector = new Float32Array(dimensions);
+			for (let i = 0; i < dimensions; i++, offset += 4) {
+				vector[i] = view.getFloat32(offset, true);
+			}
+			const levels = view.getUint8(offset);
+			offset += 1;
+			const links: number[][] = [];
+			for (let layer = 0; layer < levels; layer++) {
+				const linkCount = view.getUint16(offset, true);
+				offset += 2;
+				const layerLinks: number[] = [];
+				for (let i = 0; i < linkCount; i++, offset += 4) {
+					layerLinks.push(view.getUint32(offset, true));
+				}
+				links.push(layerLinks);
+			}
+
+			index.ids.push(id);
+			index.vectors.push(vector);
+			index.versions.push(version);
+			index.deleted.push(deleted);
+			index.links.push(links);
+			if (deleted) {
+				index.deletedCount++;
+			} else {
+				index.nodeById.set(id, node);
+			}
+		}
+
+		return index;
+	}
+
+	private encodeString(encoder: TextEncoder, value: string): ArrayBuffer {
+		const bytes = encoder.encode(value);
+		const view = new DataView(new ArrayBuffer(2 + bytes.length));
+		view.setUint16(0, bytes.length, true);
+		new Uint8Array(view.buffer).set(bytes, 2);
+		return view.buffer;
+	}
+}
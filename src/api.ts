@@ -0,0 +1,100 @@
+import { Notice, ObsidianProtocolData, TFile, normalizePath } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import type { PassageMatch, SimilarNoteResult } from '../main';
+import { LinkStatus } from './links';
+import { ScoreComponents } from './ranking';
+import { displayName } from './extractors';
+import { SemanticSearchModal } from './search-modal';
+
+// Public API for other plugins and scripts, e.g. from Templater or Dataview:
+//
+//   const ariadne = app.plugins.plugins['thread-of-ariadne'].api;
+//   const similar = await ariadne.findSimilar('Projects/Atlas.md', 5);
+//
+// and the obsidian://thread-of-ariadne URIs, which show results in Obsidian.
+
+export const PROTOCOL_ACTION = 'thread-of-ariadne';
+
+// A similar note as plain JSON
+export interface SimilarNoteJson {
+	path: string;
+	name: string;
+	score: number;
+	linkStatus?: LinkStatus;
+	sourcePassage?: PassageMatch;
+	matchedPassage?: PassageMatch;
+	components?: ScoreComponents;
+}
+
+export function toJson(result: SimilarNoteResult): SimilarNoteJson {
+	const { file, score, linkStatus, sourcePassage, matchedPassage, components } = result;
+	return { path: file.path, name: displayName(file), score, linkStatus, sourcePassage, matchedPassage, components };
+}
+
+export class ThreadOfAriadneApi {
+	private plugin: ThreadOfAriadne;
+
+	constructor(plugin: ThreadOfAriadne) {
+		this.plugin = plugin;
+	}
+
+	// The `k` notes most similar to the file at `path`, from the whole vault
+	// rather than the scope selected in the sidebar
+	async findSimilar(path: string, k = this.plugin.settings.numSimilarNotes): Promise<SimilarNoteJson[]> {
+		const file = resolveIndexedFile(this.plugin, path);
+		const results = await this.plugin.rankSimilarNotes(file, k, null);
+		return results.map(toJson);
+	}
+
+	// The `k` notes that best match a free-text query
+	async search(text: string, k = this.plugin.settings.numSimilarNotes): Promise<SimilarNoteJson[]> {
+		const results = await this.plugin.searchNotes(text, k);
+		return results.map(toJson);
+	}
+
+	// The mean embedding of the file at `path`, embedding it first if needed.
+	// Null when the file has no text to embed.
+	async getEmbedding(path: string): Promise<number[] | null> {
+		const file = resolveIndexedFile(this.plugin, path);
+		await this.plugin.indexer.indexNow(file);
+		const item = this.plugin.store.get(file.path);
+		return item ? Array.from(item.embedding) : null;
+	}
+}
+
+// The indexed file at a vault path, with or without the .md extension, or a link text
+function resolveIndexedFile(plugin: ThreadOfAriadne, path: string): TFile {
+	const { app } = plugin;
+	const normalized = normalizePath(path);
+	const file = app.vault.getAbstractFileByPath(normalized)
+		?? app.metadataCache.getFirstLinkpathDest(normalized, '');
+	if (!(file instanceof TFile)) {
+		throw new Error(`No file at ${path}`);
+	}
+	if (plugin.shouldIgnoreFile(file)) {
+		throw new Error(`${file.path} is not indexed`);
+	}
+	return file;
+}
+
+// Handle obsidian://thread-of-ariadne/similar?path=... and .../search?q=...,
+// also accepted as obsidian://thread-of-ariadne?path=... or ?q=...
+export async function handleProtocol(plugin: ThreadOfAriadne, params: ObsidianProtocolData) {
+	const command = params.action.slice(PROTOCOL_ACTION.length + 1) || (params.q !== undefined ? 'search' : 'similar');
+
+	try {
+		if (command === 'similar' && params.path) {
+			await plugin.findSimilarNotes(resolveIndexedFile(plugin, params.path));
+		} else if (command === 'search' && params.q) {
+			const modal = new SemanticSearchModal(plugin.app, plugin);
+			modal.open();
+			modal.inputEl.value = params.q;
+			modal.inputEl.dispatchEvent(new Event('input'));
+		} else {
+			throw new Error('Use similar?path=... or search?q=...');
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		new Notice(`Thread of Ariadne: ${message}`);
+	}
+}
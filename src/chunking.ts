@@ -0,0 +1,126 @@
+// Split markdown notes into heading- and paragraph-aware passages so that
+// long notes are embedded piece by piece instead of as one truncated blob.
+
+export interface NoteChunk {
+	// Heading trail leading to this passage, e.g. "Project > Risks"
+	heading: string;
+	// Raw passage text
+	text: string;
+	// Character offsets of the passage in the original note content
+	start: number;
+	end: number;
+}
+
+interface Block {
+	heading: string;
+	start: number;
+	end: number;
+}
+
+export const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+// Break the note into blocks: one per paragraph, list or code fence,
+// each tagged with the heading trail it lives under
+function splitBlocks(content: string): Block[] {
+	const blocks: Block[] = [];
+	const headings: string[] = [];
+	const frontmatter = content.match(FRONTMATTER_REGEX);
+	let offset = frontmatter ? frontmatter[0].length : 0;
+
+	let blockStart = -1;
+	let blockEnd = -1;
+	let inFence = false;
+
+	const closeBlock = () => {
+		if (blockStart >= 0) {
+			blocks.push({ heading: headings.filter(Boolean).join(' > '), start: blockStart, end: blockEnd });
+		}
+		blockStart = -1;
+	};
+
+	while (offset < content.length) {
+		const newline = content.indexOf('\n', offset);
+		const lineEnd = newline === -1 ? content.length : newline;
+		const line = content.slice(offset, lineEnd);
+
+		if (FENCE_REGEX.test(line)) {
+			inFence = !inFence;
+		}
+
+		const heading = inFence ? null : line.match(HEADING_REGEX);
+		if (heading) {
+			// A heading ends the current block and updates the heading trail
+			closeBlock();
+			const level = heading[1].length;
+			headings.length = level - 1;
+			headings[level - 1] = heading[2];
+		} else if (!inFence && line.trim() === '') {
+			closeBlock();
+		} else {
+			if (blockStart < 0) {
+				blockStart = offset;
+			}
+			blockEnd = lineEnd;
+		}
+
+		offset = lineEnd + 1;
+	}
+	closeBlock();
+
+	return blocks;
+}
+
+// Split text that is longer than `maxChars` at sentence boundaries,
+// falling back to hard cuts for text without any
+function splitLongBlock(content: string, block: Block, maxChars: number): Block[] {
+	const parts: Block[] = [];
+	let start = block.start;
+
+	while (block.end - start > maxChars) {
+		const window = content.slice(start, start + maxChars);
+		const boundary = Math.max(
+			window.lastIndexOf('. '),
+			window.lastIndexOf('。'),
+			window.lastIndexOf('\n')
+		);
+		const cut = boundary > maxChars / 2 ? start + boundary + 1 : start + maxChars;
+		parts.push({ heading: block.heading, start, end: cut });
+		start = cut;
+	}
+	parts.push({ heading: block.heading, start, end: block.end });
+
+	return parts;
+}
+
+// Chunk a note into passages of at most roughly `maxChars` characters.
+// Consecutive blocks under the same heading are merged until the limit is reached.
+export function chunkMarkdown(content: string, maxChars: number): NoteChunk[] {
+	const chunks: NoteChunk[] = [];
+	let current: Block | null = null;
+
+	const flush = () => {
+		if (current) {
+			const text = content.slice(current.start, current.end).trim();
+			if (text.length > 0) {
+				chunks.push({ heading: current.heading, text, start: current.start, end: current.end });
+			}
+		}
+		current = null;
+	};
+
+	for (const block of splitBlocks(content)) {
+		for (const part of splitLongBlock(content, block, maxChars)) {
+			if (current && current.heading === part.heading && part.end - current.start <= maxChars) {
+				current.end = part.end;
+			} else {
+				flush();
+				current = { ...part };
+			}
+		}
+	}
+	flush();
+
+	return chunks;
+}
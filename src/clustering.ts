@@ -0,0 +1,161 @@
+// Topic clustering of note embeddings: spherical k-means (cosine similarity)
+// with k-means++ seeding, and cluster labels from class-based TF-IDF.
+
+const MAX_ITERATIONS = 50;
+const MIN_CLUSTERS = 2;
+const MAX_CLUSTERS = 50;
+// Seed of the random number generator, so that re-running on an unchanged vault
+// gives the same clusters
+const SEED = 0x2545f491;
+
+export interface KMeansResult {
+	assignments: number[]; // Cluster of each vector
+	centroids: Float32Array[]; // Unit-length cluster centres
+}
+
+// Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+function random(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6D2B79F5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = Float32Array.from(vector);
+	let magnitude = 0;
+	for (let i = 0; i < result.length; i++) magnitude += result[i] * result[i];
+	magnitude = Math.sqrt(magnitude);
+	if (magnitude > 0) {
+		for (let i = 0; i < result.length; i++) result[i] /= magnitude;
+	}
+	return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+	return sum;
+}
+
+// A number of clusters for `count` notes when none is configured: the square
+// root of half the notes, as a rule of thumb
+export function suggestClusterCount(count: number): number {
+	return Math.max(MIN_CLUSTERS, Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(count / 2))));
+}
+
+// Pick initial centres far apart from each other (k-means++)
+function seedCentroids(points: Float32Array[], k: number, next: () => number): Float32Array[] {
+	const centroids = [points[Math.floor(next() * points.length)]];
+	// Squared distance of each point to its nearest centre so far; for unit
+	// vectors that is 2 - 2 * cosine
+	const distances = points.map(point => Math.max(0, 2 - 2 * dot(point, centroids[0])));
+
+	while (centroids.length < k) {
+		const total = distances.reduce((sum, distance) => sum + distance, 0);
+		if (total === 0) break;
+		let target = next() * total;
+		let index = 0;
+		while (index < points.length - 1 && target >= distances[index]) {
+			target -= distances[index];
+			index++;
+		}
+		const centroid = points[index];
+		centroids.push(centroid);
+		points.forEach((point, i) => {
+			distances[i] = Math.min(distances[i], Math.max(0, 2 - 2 * dot(point, centroid)));
+		});
+	}
+	return centroids.map(centroid => Float32Array.from(centroid));
+}
+
+// Cluster vectors by direction. Yields to the UI between iterations, since
+// large vaults with high-dimensional embeddings take a while.
+export async function kMeans(vectors: ArrayLike<number>[], k: number): Promise<KMeansResult> {
+	const points = vectors.map(normalize);
+	if (points.length === 0) return { assignments: [], centroids: [] };
+	const next = random(SEED);
+	let centroids = seedCentroids(points, Math.min(k, points.length), next);
+	const assignments: number[] = new Array(points.length).fill(-1);
+	const dimensions = points[0].length;
+
+	for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+		// Assign every point to its most similar centre
+		let changed = 0;
+		const similarities: number[] = new Array(points.length);
+		points.forEach((point, i) => {
+			let best = 0;
+			let bestSimilarity = -Infinity;
+			centroids.forEach((centroid, c) => {
+				const similarity = dot(point, centroid);
+				if (similarity > bestSimilarity) {
+					bestSimilarity = similarity;
+					best = c;
+				}
+			});
+			if (assignments[i] !== best) changed++;
+			assignments[i] = best;
+			similarities[i] = bestSimilarity;
+		});
+		if (changed === 0) break;
+
+		// Move every centre to the mean direction of its points
+		const sums = centroids.map(() => new Float32Array(dimensions));
+		const sizes: number[] = new Array(centroids.length).fill(0);
+		points.forEach((point, i) => {
+			const sum = sums[assignments[i]];
+			for (let d = 0; d < dimensions; d++) sum[d] += point[d];
+			sizes[assignments[i]]++;
+		});
+		centroids = sums.map((sum, c) => {
+			if (sizes[c] > 0) return normalize(sum);
+			// An empty cluster takes over the point that fits its own cluster worst
+			let worst = 0;
+			similarities.forEach((similarity, i) => {
+				if (similarity < similarities[worst]) worst = i;
+			});
+			similarities[worst] = Infinity;
+			return Float32Array.from(points[worst]);
+		});
+
+		await sleep(0);
+	}
+
+	return { assignments, centroids };
+}
+
+// The terms that set each cluster apart from the others, by class-based TF-IDF:
+// a term's share of the cluster's text, weighted by how rare it is across all
+// clusters. `clusters` holds the summed term counts of each cluster's notes and
+// `spread` the number of notes in each cluster containing the term. Terms found
+// in a single note of a larger cluster are skipped.
+export function distinctiveTerms(clusters: Map<string, number>[], spread: Map<string, number>[], sizes: number[], limit: number): string[][] {
+	const totals: Map<string, number> = new Map();
+	let totalCount = 0;
+	for (const counts of clusters) {
+		counts.forEach((count, term) => {
+			totals.set(term, (totals.get(term) ?? 0) + count);
+			totalCount += count;
+		});
+	}
+	const averageCount = totalCount / (clusters.length || 1);
+
+	return clusters.map((counts, c) => {
+		let clusterCount = 0;
+		counts.forEach(count => clusterCount += count);
+		const scored: { term: string; weight: number }[] = [];
+		counts.forEach((count, term) => {
+			if (sizes[c] > 2 && (spread[c].get(term) ?? 0) < 2) return;
+			const weight = (count / (clusterCount || 1)) * Math.log(1 + averageCount / (totals.get(term) ?? 1));
+			scored.push({ term, weight });
+		});
+		return scored
+			.sort((a, b) => b.weight - a.weight)
+			.slice(0, limit)
+			.map(({ term }) => term);
+	});
+}
@@ -0,0 +1,184 @@
+import { HoverParent, HoverPopover, Keymap, MarkdownRenderChild, TFile, debounce, setIcon } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import type { SimilarNoteResult } from '../main';
+import { EMPTY_FILTER, SimilarityScope } from './filters';
+import { displayName, fileIcon, fileKind } from './extractors';
+
+// ```ariadne code blocks: a list of related notes inside a note, kept current as
+// the index changes. Options are written one per line:
+//
+//   k: 10                     number of notes
+//   min: 0.75                 minimum score
+//   scope: Literature         a named scope, a folder or glob, or a #tag
+//   query: "vector databases" notes matching a query instead of this note
+
+export const CODE_BLOCK_LANGUAGE = 'ariadne';
+
+// Wait for the index to settle before rendering again
+const REFRESH_DELAY = 1000;
+const MAX_NOTES = 50;
+
+export interface CodeBlockOptions {
+	k: number;
+	min: number | null; // null for the minimum score from settings
+	scope: string;
+	query: string;
+}
+
+// Options of a code block, and the lines that could not be read
+export function parseCodeBlock(source: string, defaultK: number): { options: CodeBlockOptions; errors: string[] } {
+	const options: CodeBlockOptions = { k: defaultK, min: null, scope: '', query: '' };
+	const errors: string[] = [];
+
+	for (const line of source.split('\n')) {
+		if (!line.trim() || line.trim().startsWith('#')) continue;
+		const separator = line.indexOf(':');
+		if (separator === -1) {
+			errors.push(`Expected "option: value": ${line.trim()}`);
+			continue;
+		}
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+
+		if (key === 'k' || key === 'limit') {
+			const k = parseInt(value, 10);
+			if (k > 0) options.k = Math.min(k, MAX_NOTES);
+			else errors.push(`k must be a positive number: ${value}`);
+		} else if (key === 'min') {
+			const min = parseFloat(value);
+			if (min >= 0 && min <= 1) options.min = min;
+			else errors.push(`min must be between 0 and 1: ${value}`);
+		} else if (key === 'scope') {
+			options.scope = value;
+		} else if (key === 'query') {
+			options.query = value;
+		} else {
+			errors.push(`Unknown option: ${key}`);
+		}
+	}
+	return { options, errors };
+}
+
+// A named scope from settings, or else a filter for a #tag or a folder or glob
+export function resolveBlockScope(plugin: ThreadOfAriadne, scope: string): SimilarityScope | null {
+	if (!scope) return null;
+	const named = plugin.settings.scopes.find(candidate => candidate.name.toLowerCase() === scope.toLowerCase());
+	if (named) return named;
+	return scope.startsWith('#')
+		? { ...EMPTY_FILTER, name: scope, tags: [scope] }
+		: { ...EMPTY_FILTER, name: scope, include: [scope] };
+}
+
+export class SimilarNotesBlock extends MarkdownRenderChild implements HoverParent {
+	plugin: ThreadOfAriadne;
+	source: string;
+	sourcePath: string;
+	hoverPopover: HoverPopover | null = null;
+	// Incremented on every render, so that a slow ranking does not land in a newer one
+	private renderId = 0;
+	// The embedded query, so that refreshes do not embed it again
+	private queryVector: { key: string; vector: number[] } | null = null;
+	private requestRender = debounce(() => this.render(), REFRESH_DELAY, true);
+
+	constructor(containerEl: HTMLElement, plugin: ThreadOfAriadne, source: string, sourcePath: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+		this.sourcePath = sourcePath;
+	}
+
+	onload() {
+		this.render();
+		// Follow the index as notes are added, edited and re-embedded
+		this.registerEvent(this.plugin.indexer.on('complete', () => this.requestRender()));
+	}
+
+	async render() {
+		const renderId = ++this.renderId;
+		const { options, errors } = parseCodeBlock(this.source, this.plugin.settings.numSimilarNotes);
+
+		let results: SimilarNoteResult[] = [];
+		let failure = '';
+		try {
+			results = await this.rank(options);
+		} catch (error) {
+			console.error('Thread of Ariadne: Failed to render an ariadne block', error);
+			failure = error instanceof Error ? error.message : String(error);
+		}
+		// A newer render started while this one was ranking
+		if (renderId !== this.renderId) return;
+
+		const el = this.containerEl;
+		el.empty();
+		el.addClass('thread-of-ariadne-block');
+		for (const message of failure ? [...errors, failure] : errors) {
+			el.createDiv({ cls: 'thread-of-ariadne-block-error', text: message });
+		}
+
+		if (results.length === 0) {
+			el.createDiv({
+				cls: 'thread-of-ariadne-block-empty',
+				text: this.plugin.indexer.isIndexing() ? 'No related notes yet, indexing is in progress.' : 'No related notes.'
+			});
+			return;
+		}
+
+		const list = el.createEl('ul');
+		for (const result of results) {
+			this.renderResult(list.createEl('li'), result);
+		}
+	}
+
+	private async rank(options: CodeBlockOptions): Promise<SimilarNoteResult[]> {
+		const { plugin } = this;
+		const scope = resolveBlockScope(plugin, options.scope);
+		const min = options.min ?? plugin.settings.minSimilarityScore;
+
+		if (options.query) {
+			// The note holding the block is not one of its own results
+			const { provider, space } = plugin.queryTarget();
+			const key = `${space}\n${options.query}`;
+			if (this.queryVector?.key !== key) {
+				this.queryVector = { key, vector: await plugin.getEmbedding(options.query, provider) };
+			}
+			const results = plugin.rankQuery(options.query, this.queryVector.vector, space, options.k + 1, scope, min);
+			return results.filter(result => result.file.path !== this.sourcePath).slice(0, options.k);
+		}
+
+		const file = plugin.app.vault.getAbstractFileByPath(this.sourcePath);
+		if (!(file instanceof TFile) || plugin.shouldIgnoreFile(file)) {
+			throw new Error('This note is not indexed, so only blocks with a query can list related notes.');
+		}
+		return plugin.rankSimilarNotes(file, options.k, scope, min);
+	}
+
+	// An internal link, so that it previews on hover and opens like any other
+	private renderResult(item: HTMLElement, result: SimilarNoteResult) {
+		const { app } = this.plugin;
+		if (fileKind(result.file) !== 'note') {
+			setIcon(item.createSpan({ cls: 'thread-of-ariadne-file-icon' }), fileIcon(result.file));
+		}
+		const linktext = app.metadataCache.fileToLinktext(result.file, this.sourcePath);
+		const link = item.createEl('a', {
+			cls: 'internal-link',
+			text: displayName(result.file),
+			href: linktext,
+			attr: { 'data-href': linktext }
+		});
+		link.addEventListener('click', (e) => {
+			e.preventDefault();
+			app.workspace.openLinkText(linktext, this.sourcePath, Keymap.isModEvent(e));
+		});
+		link.addEventListener('mouseover', (e) => {
+			app.workspace.trigger('hover-link', {
+				event: e,
+				source: 'preview',
+				hoverParent: this,
+				targetEl: link,
+				linktext,
+				sourcePath: this.sourcePath
+			});
+		});
+		item.createSpan({ cls: 'thread-of-ariadne-score', text: `${(result.score * 100).toFixed(0)}%` });
+	}
+}
@@ -0,0 +1,66 @@
+// Line diff for comparing near-duplicate notes, from the longest common
+// subsequence of lines
+
+export type DiffOp =
+	| { type: 'same'; text: string }
+	| { type: 'removed'; text: string } // Only in the first text
+	| { type: 'added'; text: string }; // Only in the second text
+
+// Larger middle sections are shown as replaced wholesale instead of diffed
+const MAX_TABLE_CELLS = 4000000;
+
+export function diffLines(first: string, second: string): DiffOp[] {
+	const a = first.split('\n');
+	const b = second.split('\n');
+
+	// Common lines at the start and end need no table
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+	const ops: DiffOp[] = a.slice(0, prefix).map(text => ({ type: 'same', text }));
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+
+	if ((middleA.length + 1) * (middleB.length + 1) > MAX_TABLE_CELLS) {
+		ops.push(...middleA.map((text): DiffOp => ({ type: 'removed', text })));
+		ops.push(...middleB.map((text): DiffOp => ({ type: 'added', text })));
+	} else {
+		ops.push(...diffMiddle(middleA, middleB));
+	}
+
+	ops.push(...a.slice(a.length - suffix).map((text): DiffOp => ({ type: 'same', text })));
+	return ops;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+	// lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lengths = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] = a[i] === b[j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const ops: DiffOp[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			ops.push({ type: 'removed', text: a[i++] });
+		} else {
+			ops.push({ type: 'added', text: b[j++] });
+		}
+	}
+	while (i < a.length) ops.push({ type: 'removed', text: a[i++] });
+	while (j < b.length) ops.push({ type: 'added', text: b[j++] });
+	return ops;
+}
@@ -0,0 +1,301 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf, parseYaml } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import { cosineSimilarity } from './similarity';
+import { DiffOp, diffLines } from './diff';
+import { redirectLinks } from './links';
+import { FRONTMATTER_REGEX } from './chunking';
+import { displayName, fileKind, readFileText } from './extractors';
+
+// Near-duplicate detection: pairs of notes whose whole-note embeddings are
+// almost identical, shown side by side with actions to merge, delete or
+// dismiss them. Dismissed pairs are kept in the settings.
+
+export const DUPLICATES_VIEW_TYPE = 'thread-of-ariadne-duplicates';
+
+// Neighbours checked per note; large vaults look them up in the ANN index
+const CANDIDATES_PER_NOTE = 5;
+// Yield to the UI after comparing this many notes
+const SCAN_BATCH = 50;
+
+export interface DuplicatePair {
+	first: TFile;
+	second: TFile;
+	score: number;
+}
+
+// Order-independent key of a pair, as stored in the dismissed list
+export function duplicateKey(a: string, b: string): string {
+	return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+// The dismissed keys with `oldPath` replaced by `newPath`, which may be a folder.
+// Returns null if no key mentions it.
+export function renameDuplicateKeys(keys: string[], oldPath: string, newPath: string): string[] | null {
+	const rename = (path: string) => path === oldPath || path.startsWith(oldPath + '/')
+		? newPath + path.slice(oldPath.length)
+		: path;
+	let changed = false;
+	const renamed = keys.map(key => {
+		const [a, b] = key.split('\n');
+		const result = duplicateKey(rename(a), rename(b));
+		if (result !== key) changed = true;
+		return result;
+	});
+	return changed ? renamed : null;
+}
+
+// Pairs of indexed notes at least `threshold` similar, most similar first,
+// without the pairs dismissed as not duplicates
+export async function findDuplicates(plugin: ThreadOfAriadne, threshold: number): Promise<DuplicatePair[]> {
+	const { app, store } = plugin;
+	const dismissed = new Set(plugin.settings.dismissedDuplicates);
+	const pairs: Map<string, DuplicatePair> = new Map();
+
+	let compared = 0;
+	for (const [path, item] of store.entries()) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || plugin.shouldIgnoreFile(file)) continue;
+
+		for (const [otherPath, other] of plugin.candidateNotes(item.embedding, CANDIDATES_PER_NOTE)) {
+			if (otherPath === path) continue;
+			const key = duplicateKey(path, otherPath);
+			if (pairs.has(key) || dismissed.has(key)) continue;
+			const score = cosineSimilarity(item.embedding, other.embedding);
+			if (score < threshold) continue;
+			const otherFile = app.vault.getAbstractFileByPath(otherPath);
+			if (!(otherFile instanceof TFile) || plugin.shouldIgnoreFile(otherFile)) continue;
+			pairs.set(key, path < otherPath
+				? { first: file, second: otherFile, score }
+				: { first: otherFile, second: file, score });
+		}
+
+		if (++compared % SCAN_BATCH === 0) {
+			await sleep(0);
+		}
+	}
+	return Array.from(pairs.values()).sort((a, b) => b.score - a.score);
+}
+
+// Merge `from` into `into`: lines only `from` has are appended under a heading,
+// its properties are added to those of `into`, links to `from` are pointed at
+// `into`, and `from` is moved to the trash
+export async function mergeNotes(plugin: ThreadOfAriadne, into: TFile, from: TFile): Promise<void> {
+	const { app } = plugin;
+	const fromContent = await app.vault.read(from);
+	const frontmatter = fromContent.match(FRONTMATTER_REGEX)?.[0] ?? '';
+	const fromBody = fromContent.slice(frontmatter.length);
+
+	await app.vault.process(into, (content) => {
+		const body = content.replace(FRONTMATTER_REGEX, '');
+		const missing = diffLines(body, fromBody)
+			.filter(op => op.type === 'added' && op.text.trim() !== '')
+			.map(op => op.text);
+		if (missing.length === 0) return content;
+		return `${content.replace(/\s+$/, '')}\n\n## Merged from ${from.basename}\n\n${missing.join('\n')}\n`;
+	});
+
+	const properties = frontmatter ? parseFrontmatter(frontmatter) : null;
+	if (properties) {
+		await app.fileManager.processFrontMatter(into, (existing: Record<string, unknown>) => {
+			for (const [key, value] of Object.entries(properties)) {
+				existing[key] = mergeProperty(existing[key], value);
+			}
+		});
+	}
+
+	await redirectLinks(app, from, into);
+	await app.vault.trash(from, true);
+}
+
+function parseFrontmatter(frontmatter: string): Record<string, unknown> | null {
+	try {
+		const properties = parseYaml(frontmatter.replace(/^---\r?\n/, '').replace(/\r?\n---\s*$/, ''));
+		return properties && typeof properties === 'object' && !Array.isArray(properties) ? properties : null;
+	} catch (error) {
+		console.error('Thread of Ariadne: Failed to read the properties of a merged note', error);
+		return null;
+	}
+}
+
+// Properties the kept note lacks are taken over and lists are combined; its
+// own values win otherwise
+function mergeProperty(existing: unknown, value: unknown): unknown {
+	if (existing === undefined || existing === null || existing === '') return value;
+	if (Array.isArray(existing) || Array.isArray(value)) {
+		const items = [...(Array.isArray(existing) ? existing : [existing]), ...(Array.isArray(value) ? value : [value])];
+		return items.filter((item, i) => items.findIndex(other => JSON.stringify(other) === JSON.stringify(item)) === i);
+	}
+	return existing;
+}
+
+export class DuplicatesView extends ItemView {
+	plugin: ThreadOfAriadne;
+	pairs: DuplicatePair[] = [];
+	selected: DuplicatePair | null = null;
+	private listEl: HTMLElement;
+	private detailEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private scanning = false;
+	// Incremented on every render, so that a slow diff does not land in a newer one
+	private renderId = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ThreadOfAriadne) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return DUPLICATES_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Duplicate notes';
+	}
+
+	getIcon(): string {
+		return 'copy';
+	}
+
+	async onOpen() {
+		const contentEl = this.containerEl.children[1] as HTMLElement;
+		contentEl.empty();
+		contentEl.addClass('thread-of-ariadne-duplicates');
+
+		const toolbar = contentEl.createDiv({ cls: 'thread-of-ariadne-duplicates-toolbar' });
+		const scanButton = toolbar.createEl('button', { text: 'Scan again' });
+		scanButton.addEventListener('click', () => this.scan());
+		this.statusEl = toolbar.createSpan({ cls: 'thread-of-ariadne-duplicates-status' });
+
+		this.listEl = contentEl.createDiv({ cls: 'thread-of-ariadne-duplicates-list' });
+		this.detailEl = contentEl.createDiv({ cls: 'thread-of-ariadne-duplicates-detail' });
+
+		await this.scan();
+	}
+
+	async scan() {
+		if (this.scanning) return;
+		this.scanning = true;
+		const threshold = this.plugin.settings.duplicateThreshold;
+		this.statusEl.setText(`Scanning for notes over ${(threshold * 100).toFixed(0)}% similar...`);
+		try {
+			this.pairs = await findDuplicates(this.plugin, threshold);
+			this.selected = this.pairs[0] ?? null;
+			this.render();
+		} catch (error) {
+			console.error('Thread of Ariadne: Error scanning for duplicates', error);
+			this.statusEl.setText('Scan failed. See the console for details.');
+		} finally {
+			this.scanning = false;
+		}
+	}
+
+	private render() {
+		const threshold = this.plugin.settings.duplicateThreshold;
+		this.statusEl.setText(this.pairs.length > 0
+			? `${this.pairs.length} pairs over ${(threshold * 100).toFixed(0)}% similar`
+			: `No notes over ${(threshold * 100).toFixed(0)}% similar${this.plugin.indexer.isIndexing() ? ' yet, indexing is in progress' : ''}`);
+
+		this.listEl.empty();
+		for (const pair of this.pairs) {
+			const item = this.listEl.createDiv({
+				cls: 'thread-of-ariadne-duplicates-pair' + (pair === this.selected ? ' is-active' : '')
+			});
+			item.createSpan({ text: `${displayName(pair.first)} ⇄ ${displayName(pair.second)}` });
+			item.createSpan({ cls: 'thread-of-ariadne-score', text: `${(pair.score * 100).toFixed(0)}%` });
+			item.addEventListener('click', () => {
+				this.selected = pair;
+				this.render();
+			});
+		}
+
+		this.detailEl.empty();
+		if (this.selected) {
+			this.renderPair(this.selected, ++this.renderId);
+		}
+	}
+
+	private async renderPair(pair: DuplicatePair, renderId: number) {
+		const { first, second } = pair;
+		const actions = this.detailEl.createDiv({ cls: 'thread-of-ariadne-duplicates-actions' });
+		// Only notes can take in the text of another file
+		if (fileKind(first) === 'note' && fileKind(second) === 'note') {
+			this.actionButton(actions, `Merge into ${first.basename}`, () => this.merge(first, second));
+			this.actionButton(actions, `Merge into ${second.basename}`, () => this.merge(second, first));
+		}
+		this.actionButton(actions, `Delete ${displayName(first)}`, () => this.delete(first));
+		this.actionButton(actions, `Delete ${displayName(second)}`, () => this.delete(second));
+		this.actionButton(actions, 'Not a duplicate', () => this.dismiss(pair));
+
+		const [firstContent, secondContent] = await Promise.all([
+			readFileText(this.app, first),
+			readFileText(this.app, second)
+		]);
+		// The view may have changed while the notes were read
+		if (renderId !== this.renderId) return;
+
+		const table = this.detailEl.createEl('table', { cls: 'thread-of-ariadne-diff' });
+		const header = table.createEl('tr');
+		for (const file of [first, second]) {
+			const cell = header.createEl('th');
+			const link = cell.createEl('a', { text: file.path });
+			link.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.app.workspace.openLinkText(file.path, '', true);
+			});
+		}
+		for (const op of diffLines(firstContent, secondContent)) {
+			this.renderDiffRow(table, op);
+		}
+	}
+
+	private renderDiffRow(table: HTMLElement, op: DiffOp) {
+		const row = table.createEl('tr', { attr: { 'data-diff': op.type } });
+		row.createEl('td', { text: op.type === 'added' ? '' : op.text });
+		row.createEl('td', { text: op.type === 'removed' ? '' : op.text });
+	}
+
+	private actionButton(el: HTMLElement, text: string, action: () => Promise<void>) {
+		const button = el.createEl('button', { text });
+		button.addEventListener('click', async () => {
+			button.disabled = true;
+			try {
+				await action();
+			} catch (error) {
+				console.error('Thread of Ariadne: Error resolving a duplicate', error);
+				new Notice('Thread of Ariadne: Could not complete the action');
+				button.disabled = false;
+			}
+		});
+	}
+
+	private async merge(into: TFile, from: TFile) {
+		await mergeNotes(this.plugin, into, from);
+		new Notice(`Thread of Ariadne: Merged ${from.basename} into ${into.basename}`);
+		this.dropPairsWith(from);
+	}
+
+	private async delete(file: TFile) {
+		await this.app.vault.trash(file, true);
+		new Notice(`Thread of Ariadne: Moved ${displayName(file)} to the trash`);
+		this.dropPairsWith(file);
+	}
+
+	private async dismiss(pair: DuplicatePair) {
+		this.plugin.settings.dismissedDuplicates.push(duplicateKey(pair.first.path, pair.second.path));
+		await this.plugin.saveSettings();
+		this.pairs = this.pairs.filter(other => other !== pair);
+		this.selectNext();
+	}
+
+	private dropPairsWith(file: TFile) {
+		this.pairs = this.pairs.filter(pair => pair.first !== file && pair.second !== file);
+		this.selectNext();
+	}
+
+	private selectNext() {
+		if (!this.selected || !this.pairs.includes(this.selected)) {
+			this.selected = this.pairs[0] ?? null;
+		}
+		this.render();
+	}
+}
@@ -0,0 +1,411 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { meanVector } from './similarity';
+
+// Embedding storage kept outside data.json.
+// - embeddings.bin holds Float32 vectors keyed by `<vector space>:<content hash>`,
+//   where the vector space names the provider and model that produced them.
+// - index.json maps note paths to the content hashes of their passages.
+// Because vectors are keyed by content, renamed or moved notes keep their
+// vectors, and vectors from different models are never compared.
+// When the model changes, new vectors go to a pending space while lookups keep
+// reading the previous one, until every note has been re-embedded.
+
+export interface IndexedChunk {
+	hash: string;
+	heading: string;
+	start: number;
+	end: number;
+}
+
+export interface IndexedNote {
+	mtime: number;
+	chunks: IndexedChunk[];
+	// Chunking and preprocessing settings the note was indexed with
+	pipeline?: string;
+}
+
+export interface ChunkEmbedding extends IndexedChunk {
+	embedding: Float32Array;
+}
+
+export interface VectorSpaceInfo {
+	provider: string;
+	model: string;
+	server: string; // '' for providers without one, see vectorSpaceId
+	dimensions: number | null; // Length of the vectors, known once one is stored
+}
+
+export interface EmbeddingCacheItem {
+	embedding: Float32Array; // Mean of the chunk embeddings
+	chunks: ChunkEmbedding[];
+	mtime: number;
+}
+
+const VECTORS_FILE = 'embeddings.bin';
+const INDEX_FILE = 'index.json';
+const MAGIC = 0x4e445241; // "ARDN"
+const FORMAT_VERSION = 1;
+
+// SHA-256 of the text, shortened to 128 bits of hex
+export async function contentHash(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest).slice(0, 16))
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+export class EmbeddingStore {
+	adapter: DataAdapter;
+	dir: string;
+	// Vector space that lookups read from, e.g. `gemini/gemini-embedding-exp-03-07`
+	space = '';
+	// Space of the model being migrated to, which new vectors are written to
+	pendingSpace: string | null = null;
+	notes: Map<string, IndexedNote> = new Map();
+	private vectors: Map<string, Float32Array> = new Map();
+	// When each vector was last referenced by a note, for expiring orphans
+	private lastUsed: Map<string, number> = new Map();
+	// Vector length of each space; vectors of another length are treated as missing
+	private dimensions: Map<string, number> = new Map();
+	// Assembled note embeddings for the active space
+	private items: Map<string, EmbeddingCacheItem> = new Map();
+	private dirty = false;
+
+	constructor(adapter: DataAdapter, dir: string) {
+		this.adapter = adapter;
+		this.dir = dir;
+	}
+
+	get size(): number {
+		return this.notes.size;
+	}
+
+	// Space that new vectors are written to
+	get writeSpace(): string {
+		return this.pendingSpace ?? this.space;
+	}
+
+	// Make `space` the space of the active model. An index with notes in the
+	// current space keeps serving lookups while `space` is filled in, and
+	// `finishMigration` switches over. Returns whether a migration started.
+	setSpace(space: string): boolean {
+		if (space === this.space) {
+			this.pendingSpace = null;
+			return false;
+		}
+		if (space === this.pendingSpace) return false;
+
+		const hasIndex = Array.from(this.notes.keys()).some(path => this.isComplete(path));
+		if (!hasIndex) {
+			this.switchSpace(space);
+			return false;
+		}
+		this.pendingSpace = space;
+		this.dirty = true;
+		return true;
+	}
+
+	// Read from the pending space from now on
+	finishMigration() {
+		if (this.pendingSpace) {
+			this.switchSpace(this.pendingSpace);
+		}
+	}
+
+	private switchSpace(space: string) {
+		this.space = space;
+		this.pendingSpace = null;
+		this.items.clear();
+		this.dirty = true;
+	}
+
+	// Notes with a vector for every passage in the pending space
+	migrationProgress(): { done: number; total: number } {
+		const paths = Array.from(this.notes.keys());
+		const done = this.pendingSpace
+			? paths.filter(path => this.isComplete(path, this.pendingSpace as string)).length
+			: paths.length;
+		return { done, total: paths.length };
+	}
+
+	spaceInfo(space: string): VectorSpaceInfo {
+		const separator = space.indexOf('/');
+		const model = separator === -1 ? '' : space.slice(separator + 1);
+		const at = model.indexOf('@');
+		return {
+			provider: separator === -1 ? space : space.slice(0, separator),
+			model: at === -1 ? model : model.slice(0, at),
+			server: at === -1 ? '' : model.slice(at + 1),
+			dimensions: this.dimensions.get(space) ?? null
+		};
+	}
+
+	hasVector(hash: string, space = this.space): boolean {
+		return this.getVector(hash, space) !== undefined;
+	}
+
+	getVector(hash: string, space = this.space): Float32Array | undefined {
+		const vector = this.vectors.get(`${space}:${hash}`);
+		return vector && vector.length === this.dimensions.get(space) ? vector : undefined;
+	}
+
+	setVector(hash: string, vector: ArrayLike<number>, space = this.space) {
+		const key = `${space}:${hash}`;
+		// A model that changed its vector length behind the same name makes the
+		// older vectors of the space incomparable, so they count as missing
+		if (this.dimensions.get(space) !== vector.length) {
+			this.dimensions.set(space, vector.length);
+			if (space === this.space) this.items.clear();
+		}
+		this.vectors.set(key, vector instanceof Float32Array ? vector : Float32Array.from(vector));
+		this.lastUsed.set(key, Date.now());
+		this.dirty = true;
+	}
+
+	setNote(path: string, note: IndexedNote) {
+		this.notes.set(path, note);
+		this.items.delete(path);
+		this.dirty = true;
+	}
+
+	deleteNote(path: string): boolean {
+		this.items.delete(path);
+		const deleted = this.notes.delete(path);
+		this.dirty = this.dirty || deleted;
+		return deleted;
+	}
+
+	renameNote(oldPath: string, newPath: string): boolean {
+		const note = this.notes.get(oldPath);
+		if (!note) return false;
+		this.deleteNote(oldPath);
+		this.setNote(newPath, note);
+		return true;
+	}
+
+	// Have the note indexed again, while its current passages keep serving lookups
+	markStale(path: string) {
+		const note = this.notes.get(path);
+		if (!note) return;
+		note.mtime = 0;
+		this.dirty = true;
+	}
+
+	clear() {
+		if (this.pendingSpace) {
+			this.switchSpace(this.pendingSpace);
+		}
+		this.notes.clear();
+		this.vectors.clear();
+		this.lastUsed.clear();
+		this.dimensions.clear();
+		this.items.clear();
+		this.dirty = true;
+	}
+
+	// Whether every passage of the note has a vector in the given space
+	isComplete(path: string, space = this.space): boolean {
+		const note = this.notes.get(path);
+		return !!note && note.chunks.every(chunk => this.hasVector(chunk.hash, space));
+	}
+
+	// The note's passages joined with their vectors in the active space, or in
+	// another space, which is not cached
+	get(path: string, space = this.space): EmbeddingCacheItem | undefined {
+		const cached = space === this.space ? this.items.get(path) : undefined;
+		if (cached) return cached;
+
+		const note = this.notes.get(path);
+		if (!note || !this.isComplete(path, space)) return undefined;
+
+		const chunks = note.chunks.map(chunk => ({
+			...chunk,
+			embedding: this.getVector(chunk.hash, space) as Float32Array
+		}));
+		const item: EmbeddingCacheItem = {
+			embedding: Float32Array.from(meanVector(chunks.map(chunk => chunk.embedding))),
+			chunks,
+			mtime: note.mtime
+		};
+		if (space === this.space) this.items.set(path, item);
+		return item;
+	}
+
+	// Iterate the notes that are fully embedded in the active space, or another one
+	*entries(space = this.space): IterableIterator<[string, EmbeddingCacheItem]> {
+		for (const path of this.notes.keys()) {
+			const item = this.get(path, space);
+			if (item) yield [path, item];
+		}
+	}
+
+	// The vectors of every indexed passage in a space, by content hash
+	passageVectors(space = this.space): Map<string, Float32Array> {
+		const vectors: Map<string, Float32Array> = new Map();
+		for (const note of this.notes.values()) {
+			for (const chunk of note.chunks) {
+				const vector = this.getVector(chunk.hash, space);
+				if (vector) vectors.set(chunk.hash, vector);
+			}
+		}
+		return vectors;
+	}
+
+	// Drop vectors no note has referenced for `maxAgeMs`. Vectors of models no
+	// longer in use count as unreferenced, so they expire too.
+	prune(maxAgeMs: number) {
+		const referenced = new Set<string>();
+		for (const note of this.notes.values()) {
+			for (const chunk of note.chunks) {
+				referenced.add(chunk.hash);
+			}
+		}
+
+		const now = Date.now();
+		for (const key of Array.from(this.vectors.keys())) {
+			const separator = key.lastIndexOf(':');
+			const space = key.slice(0, separator);
+			const hash = key.slice(separator + 1);
+			if (referenced.has(hash) && (space === this.space || space === this.pendingSpace)) {
+				this.lastUsed.set(key, now);
+			} else if (now - (this.lastUsed.get(key) ?? 0) > maxAgeMs) {
+				this.vectors.delete(key);
+				this.lastUsed.delete(key);
+				this.dirty = true;
+			}
+		}
+	}
+
+	async load() {
+		const indexPath = normalizePath(`${this.dir}/${INDEX_FILE}`);
+		const vectorsPath = normalizePath(`${this.dir}/${VECTORS_FILE}`);
+
+		if (await this.adapter.exists(indexPath)) {
+			try {
+				const data = JSON.parse(await this.adapter.read(indexPath));
+				this.notes = new Map(Object.entries(data.notes ?? {}));
+				this.space = data.space ?? '';
+				this.pendingSpace = data.pendingSpace ?? null;
+			} catch (error) {
+				console.error('Thread of Ariadne: Failed to read the note index', error);
+			}
+		}
+
+		if (await this.adapter.exists(vectorsPath)) {
+			try {
+				this.readVectors(await this.adapter.readBinary(vectorsPath));
+			} catch (error) {
+				console.error('Thread of Ariadne: Failed to read stored embeddings', error);
+				this.vectors.clear();
+				this.lastUsed.clear();
+				this.dimensions.clear();
+			}
+		}
+
+		this.items.clear();
+		this.dirty = false;
+	}
+
+	async save() {
+		if (!this.dirty) return;
+		// Cleared up front so that changes made while writing are saved next time,
+		// and set again if the write fails
+		this.dirty = false;
+
+		try {
+			if (!(await this.adapter.exists(this.dir))) {
+				await this.adapter.mkdir(this.dir);
+			}
+			await this.adapter.write(
+				normalizePath(`${this.dir}/${INDEX_FILE}`),
+				JSON.stringify({
+					version: FORMAT_VERSION,
+					space: this.space,
+					pendingSpace: this.pendingSpace,
+					notes: Object.fromEntries(this.notes)
+				})
+			);
+			await this.adapter.writeBinary(normalizePath(`${this.dir}/${VECTORS_FILE}`), this.writeVectors());
+		} catch (error) {
+			this.dirty = true;
+			throw error;
+		}
+	}
+
+	// Layout: magic, version, count, then per vector:
+	// key length (uint16), key (utf-8), last used (float64), dimensions (uint32), values (float32)
+	private writeVectors(): ArrayBuffer {
+		const encoder = new TextEncoder();
+		const keys = Array.from(this.vectors.keys());
+		const encodedKeys = keys.map(key => encoder.encode(key));
+
+		let size = 12;
+		for (let i = 0; i < keys.length; i++) {
+			size += 2 + encodedKeys[i].length + 8 + 4 + (this.vectors.get(keys[i]) as Float32Array).length * 4;
+		}
+
+		const buffer = new ArrayBuffer(size);
+		const view = new DataView(buffer);
+		const bytes = new Uint8Array(buffer);
+		view.setUint32(0, MAGIC, true);
+		view.setUint32(4, FORMAT_VERSION, true);
+		view.setUint32(8, keys.length, true);
+
+		let offset = 12;
+		for (let i = 0; i < keys.length; i++) {
+			const vector = this.vectors.get(keys[i]) as Float32Array;
+			view.setUint16(offset, encodedKeys[i].length, true);
+			offset += 2;
+			bytes.set(encodedKeys[i], offset);
+			offset += encodedKeys[i].length;
+			view.setFloat64(offset, this.lastUsed.get(keys[i]) ?? Date.now(), true);
+			offset += 8;
+			view.setUint32(offset, vector.length, true);
+			offset += 4;
+			for (let j = 0; j < vector.length; j++) {
+				view.setFloat32(offset, vector[j], true);
+				offset += 4;
+			}
+		}
+
+		return buffer;
+	}
+
+	private readVectors(buffer: ArrayBuffer) {
+		const decoder = new TextDecoder();
+		const view = new DataView(buffer);
+		if (view.getUint32(0, true) !== MAGIC) {
+			throw new Error('Not an embeddings file');
+		}
+		if (view.getUint32(4, true) !== FORMAT_VERSION) {
+			throw new Error(`Unsupported embeddings file version ${view.getUint32(4, true)}`);
+		}
+
+		const count = view.getUint32(8, true);
+		const spaceUsed: Map<string, number> = new Map();
+		let offset = 12;
+		for (let i = 0; i < count; i++) {
+			const keyLength = view.getUint16(offset, true);
+			offset += 2;
+			const key = decoder.decode(new Uint8Array(buffer, offset, keyLength));
+			offset += keyLength;
+			const lastUsed = view.getFloat64(offset, true);
+			offset += 8;
+			const dimensions = view.getUint32(offset, true);
+			offset += 4;
+			const vector = new Float32Array(dimensions);
+			for (let j = 0; j < dimensions; j++) {
+				vector[j] = view.getFloat32(offset, true);
+				offset += 4;
+			}
+			this.vectors.set(key, vector);
+			this.lastUsed.set(key, lastUsed);
+			// Each space takes the length of its most recently used vectors
+			const space = key.slice(0, key.lastIndexOf(':'));
+			if (lastUsed >= (spaceUsed.get(space) ?? -Infinity)) {
+				spaceUsed.set(space, lastUsed);
+				this.dimensions.set(space, dimensions);
+			}
+		}
+	}
+}
@@ -0,0 +1,115 @@
+import { TFile } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import type { SimilarNoteResult } from '../main';
+import { renderPassage } from './passages';
+import { displayName, readFileText } from './extractors';
+import { SCORE_COMPONENTS, ScoreComponents } from './ranking';
+
+// The "why" panel of a similar note: what the two notes have in common and
+// what the score is made of
+
+const MAX_SHARED_TERMS = 12;
+const MAX_SHARED_LINKS = 10;
+
+const COMPONENT_LABELS: Record<keyof ScoreComponents, string> = {
+	semantic: 'Semantic',
+	keyword: 'Keywords',
+	tags: 'Tags',
+	links: 'Links',
+	folder: 'Folder'
+};
+
+function intersect(a: Set<string>, b: Set<string>): string[] {
+	return Array.from(a).filter(item => b.has(item));
+}
+
+function section(el: HTMLElement, title: string): HTMLElement {
+	const sectionEl = el.createDiv({ cls: 'thread-of-ariadne-why-section' });
+	sectionEl.createDiv({ cls: 'thread-of-ariadne-why-title', text: title });
+	return sectionEl;
+}
+
+// Key terms both notes share, written the way the current note writes them
+async function sharedTerms(plugin: ThreadOfAriadne, source: TFile, target: TFile): Promise<string[]> {
+	const { lexical } = plugin;
+	const terms = lexical.sharedTerms(source.path, target.path, MAX_SHARED_TERMS * 2);
+	if (terms.length === 0) return [];
+
+	const forms = lexical.tokenizer.surfaceForms(await readFileText(plugin.app, source));
+	const display: string[] = [];
+	for (const term of terms) {
+		const text = lexical.tokenizer.displayTerm(term, forms);
+		if (!display.includes(text)) display.push(text);
+	}
+	return display.slice(0, MAX_SHARED_TERMS);
+}
+
+function renderComponents(plugin: ThreadOfAriadne, el: HTMLElement, components: ScoreComponents) {
+	const weights = plugin.rankingWeights();
+	const weighted = plugin.settings.rankingMode === 'weighted';
+	const table = section(el, weighted ? 'Score (value × weight)' : 'Score components (fused by rank)')
+		.createEl('table', { cls: 'thread-of-ariadne-why-components' });
+
+	for (const key of SCORE_COMPONENTS) {
+		if (weights[key] === 0 && components[key] === 0) continue;
+		const row = table.createEl('tr');
+		row.createEl('td', { text: COMPONENT_LABELS[key] });
+		row.createEl('td', { text: `${(components[key] * 100).toFixed(0)}%` });
+		row.createEl('td', { text: `× ${weights[key].toFixed(2)}` });
+	}
+}
+
+// Fill `el` with the explanation of why `result` is similar to `source`
+export async function renderExplanation(plugin: ThreadOfAriadne, el: HTMLElement, source: TFile, result: SimilarNoteResult) {
+	const { app } = plugin;
+
+	// Best-matching passage pair
+	if (result.sourcePassage && result.matchedPassage) {
+		const pair = section(el, 'Best-matching passages');
+		const sourceEl = pair.createDiv({ cls: 'thread-of-ariadne-passage' });
+		sourceEl.createDiv({ cls: 'thread-of-ariadne-why-label', text: source.basename });
+		await renderPassage(app, sourceEl, source, result.sourcePassage);
+		const matchedEl = pair.createDiv({ cls: 'thread-of-ariadne-passage' });
+		matchedEl.createDiv({ cls: 'thread-of-ariadne-why-label', text: displayName(result.file) });
+		await renderPassage(app, matchedEl, result.file, result.matchedPassage);
+	}
+
+	const terms = await sharedTerms(plugin, source, result.file);
+	if (terms.length > 0) {
+		const termsEl = section(el, 'Shared key terms').createDiv({ cls: 'thread-of-ariadne-why-chips' });
+		for (const term of terms) {
+			termsEl.createSpan({ cls: 'thread-of-ariadne-why-chip', text: term });
+		}
+	}
+
+	const tags = intersect(plugin.noteTags(source), plugin.noteTags(result.file));
+	if (tags.length > 0) {
+		const tagsEl = section(el, 'Shared tags').createDiv({ cls: 'thread-of-ariadne-why-chips' });
+		for (const tag of tags) {
+			tagsEl.createSpan({ cls: 'thread-of-ariadne-why-chip', text: tag });
+		}
+	}
+
+	const links = intersect(plugin.noteLinks(source.path), plugin.noteLinks(result.file.path));
+	if (links.length > 0) {
+		const linksEl = section(el, 'Both link to').createDiv({ cls: 'thread-of-ariadne-why-chips' });
+		for (const path of links.slice(0, MAX_SHARED_LINKS)) {
+			const target = app.vault.getAbstractFileByPath(path);
+			const chip = linksEl.createEl('a', {
+				cls: 'thread-of-ariadne-why-chip',
+				text: target instanceof TFile ? displayName(target) : path
+			});
+			chip.addEventListener('click', (e) => {
+				e.preventDefault();
+				app.workspace.openLinkText(path, source.path, false);
+			});
+		}
+		if (links.length > MAX_SHARED_LINKS) {
+			linksEl.createSpan({ text: `+${links.length - MAX_SHARED_LINKS} more` });
+		}
+	}
+
+	if (result.components) {
+		renderComponents(plugin, el, result.components);
+	}
+}
@@ -0,0 +1,173 @@
+import { App, TFile, loadPdfJs } from 'obsidian';
+
+// Text of the non-markdown files that take part in the index: the text nodes of
+// canvases, the text layer of PDFs, and the alt text and captions images are
+// given where notes embed them. Passage offsets of these files refer to the
+// extracted text, so previews read it through `readFileText` as well.
+
+export type FileKind = 'note' | 'canvas' | 'pdf' | 'image';
+
+export interface FileTypeOptions {
+	indexCanvases: boolean;
+	indexPdfs: boolean;
+	indexImages: boolean;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+const KIND_ICONS: Record<FileKind, string> = {
+	note: 'file',
+	canvas: 'layout-dashboard',
+	pdf: 'file-text',
+	image: 'image'
+};
+
+// Long PDFs are cut off, so that a book does not stall indexing
+const MAX_PDF_PAGES = 200;
+// Extracted texts kept in memory for passage previews
+const TEXT_CACHE_SIZE = 20;
+// Embed aliases that only set the display size, e.g. ![[photo.png|300]]
+const SIZE_ALIAS_REGEX = /^\d+(x\d+)?$/;
+
+const textCache: Map<string, { mtime: number; text: string }> = new Map();
+
+export function fileKind(file: TFile): FileKind | null {
+	const extension = file.extension.toLowerCase();
+	if (extension === 'md') return 'note';
+	if (extension === 'canvas') return 'canvas';
+	if (extension === 'pdf') return 'pdf';
+	if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+	return null;
+}
+
+// Whether the file is indexed with the given options
+export function isIndexable(file: TFile, options: FileTypeOptions): boolean {
+	switch (fileKind(file)) {
+		case 'note': return true;
+		case 'canvas': return options.indexCanvases;
+		case 'pdf': return options.indexPdfs;
+		case 'image': return options.indexImages;
+		default: return false;
+	}
+}
+
+export function fileIcon(file: TFile): string {
+	return KIND_ICONS[fileKind(file) ?? 'note'];
+}
+
+// The name results show: notes by basename, other files with their extension
+export function displayName(file: TFile): string {
+	return fileKind(file) === 'note' ? file.basename : file.name;
+}
+
+interface CanvasNode {
+	type?: string;
+	text?: string;
+	label?: string;
+}
+
+// Text and group nodes of a canvas, one paragraph each
+function extractCanvas(content: string): string {
+	let nodes: CanvasNode[] = [];
+	try {
+		nodes = JSON.parse(content).nodes ?? [];
+	} catch (error) {
+		console.error('Thread of Ariadne: Failed to parse canvas', error);
+	}
+	return nodes
+		.map(node => {
+			if (node.type === 'text') return node.text ?? '';
+			if (node.type === 'group') return node.label ?? '';
+			return '';
+		})
+		.filter(text => text.trim().length > 0)
+		.join('\n\n');
+}
+
+async function extractPdf(app: App, file: TFile): Promise<string> {
+	const pdfjs = await loadPdfJs();
+	const document = await pdfjs.getDocument({ data: new Uint8Array(await app.vault.readBinary(file)) }).promise;
+	const pages: string[] = [];
+	try {
+		const pageCount = Math.min(document.numPages, MAX_PDF_PAGES);
+		for (let number = 1; number <= pageCount; number++) {
+			const page = await document.getPage(number);
+			const content = await page.getTextContent();
+			const text = (content.items as { str?: string; hasEOL?: boolean }[])
+				.map(item => (item.str ?? '') + (item.hasEOL ? '\n' : ' '))
+				.join('')
+				.replace(/[ \t]+\n/g, '\n');
+			// Each page is at least one paragraph
+			pages.push(text.trim());
+		}
+	} finally {
+		await document.destroy();
+	}
+	return pages.filter(text => text.length > 0).join('\n\n');
+}
+
+// What notes say about an image where they embed it: the alt text or alias of
+// each embed, and a caption line directly below it
+async function extractImage(app: App, file: TFile): Promise<string> {
+	const captions: string[] = [];
+	for (const [path, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!targets[file.path]) continue;
+		const source = app.vault.getAbstractFileByPath(path);
+		const embeds = source instanceof TFile ? app.metadataCache.getFileCache(source)?.embeds ?? [] : [];
+		const own = embeds.filter(embed => app.metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], path)?.path === file.path);
+		if (!(source instanceof TFile) || own.length === 0) continue;
+
+		const lines = (await app.vault.cachedRead(source)).split('\n');
+		for (const embed of own) {
+			const alias = embed.displayText?.trim() ?? '';
+			if (alias && alias !== embed.link && !SIZE_ALIAS_REGEX.test(alias)) {
+				captions.push(alias);
+			}
+			const next = lines[embed.position.end.line + 1]?.trim() ?? '';
+			if (next && !next.startsWith('!') && !next.startsWith('#')) {
+				captions.push(next);
+			}
+		}
+	}
+	return Array.from(new Set(captions)).join('\n\n');
+}
+
+// The text of a file as it is indexed. Text extracted from other file types is
+// cached for as long as the file is unchanged.
+export async function readFileText(app: App, file: TFile): Promise<string> {
+	const kind = fileKind(file);
+	if (kind === 'note') return app.vault.cachedRead(file);
+
+	// Image captions live in other notes, so they are never cached
+	if (kind === 'image') return extractImage(app, file);
+
+	const cached = textCache.get(file.path);
+	if (cached && cached.mtime === file.stat.mtime) return cached.text;
+
+	let text = '';
+	if (kind === 'canvas') {
+		text = extractCanvas(await app.vault.cachedRead(file));
+	} else if (kind === 'pdf') {
+		text = await extractPdf(app, file);
+	}
+
+	textCache.delete(file.path);
+	textCache.set(file.path, { mtime: file.stat.mtime, text });
+	// Forget the least recently extracted file
+	if (textCache.size > TEXT_CACHE_SIZE) {
+		textCache.delete(textCache.keys().next().value as string);
+	}
+	return text;
+}
+
+// When the indexed text of a file last changed. Image captions change with the
+// notes that embed the image.
+export function contentMtime(app: App, file: TFile): number {
+	if (fileKind(file) !== 'image') return file.stat.mtime;
+	let mtime = file.stat.mtime;
+	for (const [path, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!targets[file.path]) continue;
+		const source = app.vault.getAbstractFileByPath(path);
+		if (source instanceof TFile) mtime = Math.max(mtime, source.stat.mtime);
+	}
+	return mtime;
+}
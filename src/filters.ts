@@ -0,0 +1,177 @@
+import { App, TFile, getAllTags } from 'obsidian';
+
+// Which notes similarity results may come from. Scopes are named filters the
+// sidebar can switch between, e.g. "only literature notes".
+
+export interface NoteFilter {
+	include: string[]; // Globs or folders; when set, a note must match one
+	exclude: string[]; // Globs or folders a note must not match
+	tags: string[]; // "#tag" to require one of them, "-#tag" to exclude
+	properties: string[]; // "key", "key=value", "-key" or "-key=value"
+	modifiedAfter: string; // YYYY-MM-DD or a relative age such as 30d, 6w, 3m, 1y
+	modifiedBefore: string;
+}
+
+export interface SimilarityScope extends NoteFilter {
+	name: string;
+}
+
+export const EMPTY_FILTER: NoteFilter = {
+	include: [],
+	exclude: [],
+	tags: [],
+	properties: [],
+	modifiedAfter: '',
+	modifiedBefore: ''
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const RELATIVE_UNITS: Record<string, number> = { d: DAY, w: 7 * DAY, m: 30 * DAY, y: 365 * DAY };
+const RELATIVE_DATE_REGEX = /^(\d+)\s*([dwmy])$/i;
+const PLAIN_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const GLOB_CHARACTERS_REGEX = /[*?{}]/;
+
+// Whether `path` is `folder` itself or inside it. Unlike a plain prefix test,
+// "Arch" does not contain "Archive/note.md".
+export function isInFolder(path: string, folder: string): boolean {
+	const normalized = folder.trim().replace(/^\/+|\/+$/g, '');
+	if (!normalized) return true;
+	return path === normalized || path.startsWith(normalized + '/');
+}
+
+// Match paths against a glob: * matches within a folder, ** across folders, ? a
+// single character and {a,b} either alternative. A pattern without wildcards is
+// a folder or a single file.
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.trim().replace(/^\/+/, '');
+	if (!GLOB_CHARACTERS_REGEX.test(pattern)) {
+		const escaped = pattern.replace(/\/+$/, '').replace(/[.*+?^$()|\\[\]{}]/g, '\\$&');
+		return new RegExp(`^${escaped}(/.*)?$`, 'i');
+	}
+
+	let source = '';
+	let braces = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			// "**/" also matches no folder at all
+			if (pattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			source += '(?:';
+			braces++;
+		} else if (char === '}' && braces > 0) {
+			source += ')';
+			braces--;
+		} else if (char === ',' && braces > 0) {
+			source += '|';
+		} else {
+			source += char.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}${')'.repeat(braces)}$`, 'i');
+}
+
+// A timestamp from an absolute or relative date, or null if there is none. A
+// plain date is a local day: its start, or with `endOfDay` its last millisecond.
+export function parseFilterDate(value: string, now = Date.now(), endOfDay = false): number | null {
+	const trimmed = value.trim();
+	if (!trimmed) return null;
+	const relative = trimmed.match(RELATIVE_DATE_REGEX);
+	if (relative) {
+		return now - parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2].toLowerCase()];
+	}
+	const plain = trimmed.match(PLAIN_DATE_REGEX);
+	if (plain) {
+		const [year, month, day] = plain.slice(1).map(part => parseInt(part, 10));
+		return endOfDay
+			? new Date(year, month - 1, day + 1).getTime() - 1
+			: new Date(year, month - 1, day).getTime();
+	}
+	const time = Date.parse(trimmed);
+	return isNaN(time) ? null : time;
+}
+
+interface PropertyCondition {
+	key: string;
+	value: string | null; // null when the property only has to be present
+	negate: boolean;
+}
+
+function parseProperty(condition: string): PropertyCondition {
+	let text = condition.trim();
+	const negate = text.startsWith('-') || text.startsWith('!');
+	if (negate) text = text.slice(1);
+	const separator = text.indexOf('=');
+	return separator === -1
+		? { key: text.trim(), value: null, negate }
+		: { key: text.slice(0, separator).trim(), value: text.slice(separator + 1).trim().toLowerCase(), negate };
+}
+
+function hasProperty(frontmatter: Record<string, unknown> | undefined, condition: PropertyCondition): boolean {
+	const value = frontmatter?.[condition.key];
+	if (value === undefined || value === null) return false;
+	if (condition.value === null) return true;
+	const values = Array.isArray(value) ? value : [value];
+	return values.some(item => String(item).toLowerCase() === condition.value);
+}
+
+// A filter compiled for checking many notes
+export class FilterMatcher {
+	app: App;
+	private include: RegExp[];
+	private exclude: RegExp[];
+	private requiredTags: string[];
+	private excludedTags: string[];
+	private properties: PropertyCondition[];
+	private after: number | null;
+	private before: number | null;
+
+	constructor(app: App, filter: NoteFilter) {
+		this.app = app;
+		this.include = filter.include.filter(glob => glob.trim()).map(globToRegExp);
+		this.exclude = filter.exclude.filter(glob => glob.trim()).map(globToRegExp);
+
+		const tags = filter.tags
+			.map(tag => tag.trim().toLowerCase())
+			.filter(tag => tag && tag !== '-');
+		const normalizeTag = (tag: string) => tag.startsWith('#') ? tag : `#${tag}`;
+		this.requiredTags = tags.filter(tag => !tag.startsWith('-')).map(normalizeTag);
+		this.excludedTags = tags.filter(tag => tag.startsWith('-')).map(tag => normalizeTag(tag.slice(1)));
+
+		this.properties = filter.properties.filter(property => property.trim()).map(parseProperty);
+		this.after = parseFilterDate(filter.modifiedAfter);
+		// Notes modified on the "before" day itself still count
+		this.before = parseFilterDate(filter.modifiedBefore, Date.now(), true);
+	}
+
+	matches(file: TFile): boolean {
+		const { path } = file;
+		if (this.include.length > 0 && !this.include.some(regex => regex.test(path))) return false;
+		if (this.exclude.some(regex => regex.test(path))) return false;
+
+		const mtime = file.stat.mtime;
+		if (this.after !== null && mtime < this.after) return false;
+		if (this.before !== null && mtime > this.before) return false;
+
+		if (this.requiredTags.length === 0 && this.excludedTags.length === 0 && this.properties.length === 0) return true;
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		// Nested tags count for their parents: #topic/ai matches #topic
+		const tags = (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.toLowerCase());
+		const hasTag = (tag: string) => tags.some(noteTag => noteTag === tag || noteTag.startsWith(tag + '/'));
+		if (this.requiredTags.length > 0 && !this.requiredTags.some(hasTag)) return false;
+		if (this.excludedTags.some(hasTag)) return false;
+
+		return this.properties.every(condition => hasProperty(cache?.frontmatter, condition) !== condition.negate);
+	}
+}
@@ -0,0 +1,420 @@
+import { ItemView, Keymap, TFile, WorkspaceLeaf, getAllTags } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import { hashString } from './tokenizer';
+import { displayName } from './extractors';
+
+// Force-directed graph of a note and its nearest neighbours, optionally with the
+// neighbours of those neighbours. Edges are similarity scores from the same
+// ranking the sidebar uses; clicking a node makes it the new centre.
+
+export const SEMANTIC_GRAPH_VIEW_TYPE = 'thread-of-ariadne-graph';
+
+export type GraphColorBy = 'folder' | 'tag';
+
+interface GraphNode {
+	file: TFile;
+	hop: number; // 0 for the centre, 1 for its neighbours, 2 for theirs
+	group: string; // Folder or first tag, which decides the colour
+	x: number;
+	y: number;
+	vx: number;
+	vy: number;
+}
+
+interface GraphEdge {
+	source: GraphNode;
+	target: GraphNode;
+	score: number;
+}
+
+// Simulation constants, in world units
+const REPULSION = 4000;
+const SPRING = 0.02;
+const GRAVITY = 0.01;
+const DAMPING = 0.6;
+const COOLING = 0.985;
+const MIN_ALPHA = 0.005;
+// Strong matches pull closer together than weak ones
+const MIN_EDGE_LENGTH = 60;
+const MAX_EDGE_LENGTH = 180;
+const MAX_EDGE_WIDTH = 6;
+const NODE_RADIUS = [10, 7, 5];
+const FIT_PADDING = 40;
+const MAX_LEGEND_GROUPS = 8;
+const NO_GROUP = '(none)';
+
+export class SemanticGraphView extends ItemView {
+	plugin: ThreadOfAriadne;
+	centre: TFile | null = null;
+	private nodes: GraphNode[] = [];
+	private edges: GraphEdge[] = [];
+	private canvas: HTMLCanvasElement;
+	private legendEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private alpha = 0;
+	private frame: number | null = null;
+	// Incremented on every rebuild, so that slower builds do not overwrite newer ones
+	private buildId = 0;
+	// World-to-screen transform of the last drawn frame, for hit testing
+	private scale = 1;
+	private offsetX = 0;
+	private offsetY = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ThreadOfAriadne) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return SEMANTIC_GRAPH_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Semantic graph';
+	}
+
+	getIcon(): string {
+		return 'network';
+	}
+
+	async onOpen() {
+		const contentEl = this.containerEl.children[1] as HTMLElement;
+		contentEl.empty();
+		contentEl.addClass('thread-of-ariadne-graph');
+
+		this.renderToolbar(contentEl.createDiv({ cls: 'thread-of-ariadne-graph-toolbar' }));
+		this.statusEl = contentEl.createDiv({ cls: 'thread-of-ariadne-graph-status' });
+		this.canvas = contentEl.createEl('canvas', { cls: 'thread-of-ariadne-graph-canvas' });
+		this.legendEl = contentEl.createDiv({ cls: 'thread-of-ariadne-graph-legend' });
+
+		this.registerDomEvent(this.canvas, 'click', (e) => this.onCanvasClick(e));
+		this.registerDomEvent(this.canvas, 'mousemove', (e) => {
+			const node = this.nodeAt(e);
+			this.canvas.style.cursor = node ? 'pointer' : 'default';
+			this.canvas.title = node ? displayName(node.file) : '';
+		});
+
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile && activeFile.extension === 'md') {
+			await this.setCentre(activeFile);
+		} else {
+			this.statusEl.setText('Open a note to see its semantic neighbourhood.');
+		}
+	}
+
+	async onClose() {
+		this.stop();
+	}
+
+	onResize() {
+		this.resizeCanvas();
+		this.draw();
+	}
+
+	// Rebuild the graph around `file`
+	async setCentre(file: TFile) {
+		this.centre = file;
+		await this.rebuild();
+	}
+
+	async rebuild() {
+		if (!this.centre) return;
+		const buildId = ++this.buildId;
+		const centre = this.centre;
+		const { graphNeighbours, graphSecondHop } = this.plugin.settings;
+		this.statusEl.setText(`Finding neighbours of ${centre.basename}...`);
+
+		const nodes: Map<string, GraphNode> = new Map();
+		const edges: Map<string, GraphEdge> = new Map();
+		const addNode = (file: TFile, hop: number): GraphNode => {
+			let node = nodes.get(file.path);
+			if (!node) {
+				// Start near the centre, spread by hop, so the layout settles quickly
+				const angle = Math.random() * 2 * Math.PI;
+				const distance = hop * MIN_EDGE_LENGTH;
+				node = { file, hop, group: this.groupOf(file), x: Math.cos(angle) * distance, y: Math.sin(angle) * distance, vx: 0, vy: 0 };
+				nodes.set(file.path, node);
+			}
+			return node;
+		};
+		// Similarity is symmetric enough to draw each pair once, with the stronger score
+		const addEdge = (source: GraphNode, target: GraphNode, score: number) => {
+			const key = [source.file.path, target.file.path].sort().join('\n');
+			const existing = edges.get(key);
+			if (!existing || existing.score < score) {
+				edges.set(key, { source, target, score });
+			}
+		};
+
+		try {
+			const root = addNode(centre, 0);
+			const neighbours = await this.plugin.rankSimilarNotes(centre, graphNeighbours);
+			for (const result of neighbours) {
+				addEdge(root, addNode(result.file, 1), result.score);
+			}
+
+			if (graphSecondHop) {
+				for (const result of neighbours) {
+					if (buildId !== this.buildId) return;
+					const secondHop = await this.plugin.rankSimilarNotes(result.file, graphNeighbours);
+					const from = nodes.get(result.file.path) as GraphNode;
+					for (const next of secondHop) {
+						addEdge(from, addNode(next.file, 2), next.score);
+					}
+				}
+			}
+		} catch (error) {
+			console.error('Thread of Ariadne: Error building the semantic graph', error);
+			if (buildId === this.buildId) {
+				this.statusEl.setText('Could not build the graph. See the console for details.');
+			}
+			return;
+		}
+		if (buildId !== this.buildId) return;
+
+		this.nodes = Array.from(nodes.values());
+		this.edges = Array.from(edges.values());
+		this.statusEl.setText(this.nodes.length > 1
+			? `${centre.basename}: ${this.nodes.length - 1} neighbours. Click a note to centre it, Mod+click to open it.`
+			: `No similar notes found for ${centre.basename}.`);
+		this.renderLegend();
+		this.resizeCanvas();
+		this.start();
+	}
+
+	private renderToolbar(el: HTMLElement) {
+		const { settings } = this.plugin;
+
+		el.createSpan({ text: 'Neighbours' });
+		const neighbours = el.createEl('select', { cls: 'dropdown' });
+		for (const count of [3, 5, 8, 12, 20]) {
+			neighbours.createEl('option', { text: String(count), value: String(count) });
+		}
+		neighbours.value = String(settings.graphNeighbours);
+		neighbours.addEventListener('change', async () => {
+			settings.graphNeighbours = parseInt(neighbours.value, 10);
+			await this.plugin.saveSettings();
+			await this.rebuild();
+		});
+
+		const secondHopLabel = el.createEl('label');
+		const secondHop = secondHopLabel.createEl('input', { type: 'checkbox' });
+		secondHopLabel.appendText(' Second hop');
+		secondHop.checked = settings.graphSecondHop;
+		secondHop.addEventListener('change', async () => {
+			settings.graphSecondHop = secondHop.checked;
+			await this.plugin.saveSettings();
+			await this.rebuild();
+		});
+
+		el.createSpan({ text: 'Colour by' });
+		const colorBy = el.createEl('select', { cls: 'dropdown' });
+		colorBy.createEl('option', { text: 'Folder', value: 'folder' });
+		colorBy.createEl('option', { text: 'Tag', value: 'tag' });
+		colorBy.value = settings.graphColorBy;
+		colorBy.addEventListener('change', async () => {
+			settings.graphColorBy = colorBy.value as GraphColorBy;
+			await this.plugin.saveSettings();
+			for (const node of this.nodes) {
+				node.group = this.groupOf(node.file);
+			}
+			this.renderLegend();
+			this.draw();
+		});
+	}
+
+	private groupOf(file: TFile): string {
+		if (this.plugin.settings.graphColorBy === 'tag') {
+			const cache = this.app.metadataCache.getFileCache(file);
+			const tags = cache ? getAllTags(cache) ?? [] : [];
+			return tags.length > 0 ? tags[0].toLowerCase() : NO_GROUP;
+		}
+		return file.parent?.path ?? NO_GROUP;
+	}
+
+	private colorOf(group: string): string {
+		if (group === NO_GROUP) return 'hsl(0, 0%, 60%)';
+		return `hsl(${hashString(group) % 360}, 60%, 55%)`;
+	}
+
+	private renderLegend() {
+		this.legendEl.empty();
+		const counts: Map<string, number> = new Map();
+		for (const node of this.nodes) {
+			counts.set(node.group, (counts.get(node.group) ?? 0) + 1);
+		}
+		const groups = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+		for (const [group] of groups.slice(0, MAX_LEGEND_GROUPS)) {
+			const item = this.legendEl.createDiv({ cls: 'thread-of-ariadne-graph-legend-item' });
+			const swatch = item.createSpan({ cls: 'thread-of-ariadne-graph-swatch' });
+			swatch.style.backgroundColor = this.colorOf(group);
+			item.appendText(group === '/' ? 'Vault root' : group);
+		}
+		if (groups.length > MAX_LEGEND_GROUPS) {
+			this.legendEl.createDiv({ text: `+${groups.length - MAX_LEGEND_GROUPS} more` });
+		}
+	}
+
+	private resizeCanvas() {
+		if (!this.canvas) return;
+		const { clientWidth, clientHeight } = this.canvas;
+		const ratio = window.devicePixelRatio || 1;
+		this.canvas.width = Math.max(1, Math.floor(clientWidth * ratio));
+		this.canvas.height = Math.max(1, Math.floor(clientHeight * ratio));
+	}
+
+	private start() {
+		this.alpha = 1;
+		if (this.frame === null) {
+			this.frame = window.requestAnimationFrame(() => this.tick());
+		}
+	}
+
+	private stop() {
+		if (this.frame !== null) {
+			window.cancelAnimationFrame(this.frame);
+			this.frame = null;
+		}
+	}
+
+	private tick() {
+		this.frame = null;
+		this.step();
+		this.draw();
+		this.alpha *= COOLING;
+		if (this.alpha > MIN_ALPHA) {
+			this.frame = window.requestAnimationFrame(() => this.tick());
+		}
+	}
+
+	// One step of the simulation: nodes repel each other, edges pull like springs
+	// and gravity keeps everything near the centre, which stays fixed
+	private step() {
+		const { nodes, edges, alpha } = this;
+
+		for (let i = 0; i < nodes.length; i++) {
+			for (let j = i + 1; j < nodes.length; j++) {
+				const a = nodes[i];
+				const b = nodes[j];
+				let dx = b.x - a.x;
+				let dy = b.y - a.y;
+				let distanceSq = dx * dx + dy * dy;
+				if (distanceSq < 1) {
+					// Nudge apart nodes that sit on top of each other
+					dx = Math.random() - 0.5;
+					dy = Math.random() - 0.5;
+					distanceSq = 1;
+				}
+				const distance = Math.sqrt(distanceSq);
+				const force = REPULSION / distanceSq * alpha;
+				a.vx -= dx / distance * force;
+				a.vy -= dy / distance * force;
+				b.vx += dx / distance * force;
+				b.vy += dy / distance * force;
+			}
+		}
+
+		for (const { source, target, score } of edges) {
+			const dx = target.x - source.x;
+			const dy = target.y - source.y;
+			const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+			const length = MAX_EDGE_LENGTH - (MAX_EDGE_LENGTH - MIN_EDGE_LENGTH) * score;
+			const force = (distance - length) * SPRING * alpha;
+			source.vx += dx / distance * force;
+			source.vy += dy / distance * force;
+			target.vx -= dx / distance * force;
+			target.vy -= dy / distance * force;
+		}
+
+		for (const node of nodes) {
+			if (node.hop === 0) {
+				node.x = node.y = node.vx = node.vy = 0;
+				continue;
+			}
+			node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+			node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+			node.x += node.vx;
+			node.y += node.vy;
+		}
+	}
+
+	private draw() {
+		const ctx = this.canvas?.getContext('2d');
+		if (!ctx) return;
+		const ratio = window.devicePixelRatio || 1;
+		const width = this.canvas.width / ratio;
+		const height = this.canvas.height / ratio;
+		ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+		ctx.clearRect(0, 0, width, height);
+		if (this.nodes.length === 0) return;
+
+		// Fit the whole graph into the canvas, centred on the centre note
+		let extent = 1;
+		for (const node of this.nodes) {
+			extent = Math.max(extent, Math.abs(node.x), Math.abs(node.y));
+		}
+		this.scale = Math.min(1.5, Math.max(0.1, (Math.min(width, height) / 2 - FIT_PADDING) / extent));
+		this.offsetX = width / 2;
+		this.offsetY = height / 2;
+		const toScreen = (node: GraphNode): [number, number] => [node.x * this.scale + this.offsetX, node.y * this.scale + this.offsetY];
+
+		const style = getComputedStyle(this.containerEl);
+		const textColor = style.getPropertyValue('--text-normal').trim() || '#888';
+		const edgeColor = style.getPropertyValue('--text-faint').trim() || '#aaa';
+
+		ctx.strokeStyle = edgeColor;
+		for (const edge of this.edges) {
+			const [x1, y1] = toScreen(edge.source);
+			const [x2, y2] = toScreen(edge.target);
+			ctx.globalAlpha = 0.3 + 0.7 * edge.score;
+			ctx.lineWidth = Math.max(0.5, edge.score * MAX_EDGE_WIDTH);
+			ctx.beginPath();
+			ctx.moveTo(x1, y1);
+			ctx.lineTo(x2, y2);
+			ctx.stroke();
+		}
+		ctx.globalAlpha = 1;
+
+		ctx.font = `${style.getPropertyValue('--font-ui-smaller').trim() || '12px'} ${style.getPropertyValue('--font-interface').trim() || 'sans-serif'}`;
+		ctx.textAlign = 'center';
+		ctx.textBaseline = 'top';
+		for (const node of this.nodes) {
+			const [x, y] = toScreen(node);
+			const radius = NODE_RADIUS[node.hop];
+			ctx.fillStyle = this.colorOf(node.group);
+			ctx.beginPath();
+			ctx.arc(x, y, radius, 0, 2 * Math.PI);
+			ctx.fill();
+			if (node.hop === 0) {
+				ctx.lineWidth = 2;
+				ctx.strokeStyle = textColor;
+				ctx.stroke();
+			}
+			ctx.fillStyle = textColor;
+			ctx.fillText(displayName(node.file), x, y + radius + 2);
+		}
+	}
+
+	private nodeAt(e: MouseEvent): GraphNode | null {
+		const rect = this.canvas.getBoundingClientRect();
+		const x = e.clientX - rect.left;
+		const y = e.clientY - rect.top;
+		for (const node of this.nodes) {
+			const dx = node.x * this.scale + this.offsetX - x;
+			const dy = node.y * this.scale + this.offsetY - y;
+			const radius = NODE_RADIUS[node.hop] + 2;
+			if (dx * dx + dy * dy <= radius * radius) return node;
+		}
+		return null;
+	}
+
+	private async onCanvasClick(e: MouseEvent) {
+		const node = this.nodeAt(e);
+		if (!node) return;
+		if (Keymap.isModEvent(e)) {
+			await this.app.workspace.openLinkText(node.file.path, '', true);
+		} else if (node.hop !== 0) {
+			await this.setCentre(node.file);
+		}
+	}
+}
@@ -0,0 +1,124 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, normalizePath } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+
+// Portable copy of the embedding index, so that another device or a teammate
+// sharing the vault can skip embedding it again. The file is JSON lines: a
+// manifest naming the model and the notes, then one passage vector per line.
+// Vectors are keyed by the content hash of their passage, so importing them is
+// safe whatever state the notes are in: the indexer only reuses the vectors of
+// passages whose text still matches.
+
+const FORMAT = 'thread-of-ariadne-index';
+const FORMAT_VERSION = 1;
+
+export interface IndexManifest {
+	format: string;
+	version: number;
+	exported: string; // ISO date
+	space: string; // Vector space, see vectorSpaceId
+	provider: string;
+	model: string;
+	dimensions: number | null;
+	pipeline: string; // Chunking and preprocessing settings, see preprocessSignature
+	vectors: number;
+	notes: string[];
+}
+
+interface VectorLine {
+	hash: string;
+	vector: string; // Base64 of the float32 values
+}
+
+export interface ImportSummary {
+	manifest: IndexManifest;
+	imported: number;
+	skipped: number; // Already present locally
+}
+
+// Write the vectors of the index lookups read from to `path` in the vault
+export async function exportIndex(plugin: ThreadOfAriadne, path: string): Promise<IndexManifest> {
+	const { store } = plugin;
+	const vectors = store.passageVectors();
+	const info = store.spaceInfo(store.space);
+	const manifest: IndexManifest = {
+		format: FORMAT,
+		version: FORMAT_VERSION,
+		exported: new Date().toISOString(),
+		space: store.space,
+		provider: info.provider,
+		model: info.model,
+		dimensions: info.dimensions,
+		pipeline: plugin.pipelineSignature(),
+		vectors: vectors.size,
+		notes: Array.from(store.entries()).map(([notePath]) => notePath)
+	};
+
+	const lines = [JSON.stringify(manifest)];
+	for (const [hash, vector] of vectors) {
+		const line: VectorLine = { hash, vector: arrayBufferToBase64(Float32Array.from(vector).buffer) };
+		lines.push(JSON.stringify(line));
+	}
+	await plugin.app.vault.adapter.write(normalizePath(path), lines.join('\n') + '\n');
+	return manifest;
+}
+
+// Add the vectors of an exported index that are missing locally. Vectors of
+// another model are kept in their own space, for when that model is selected.
+export async function importIndex(plugin: ThreadOfAriadne, path: string): Promise<ImportSummary> {
+	const { store } = plugin;
+	const normalized = normalizePath(path);
+	if (!(await plugin.app.vault.adapter.exists(normalized))) {
+		throw new Error(`${normalized} does not exist`);
+	}
+
+	const lines = (await plugin.app.vault.adapter.read(normalized)).split('\n').filter(line => line.trim());
+	let manifest: IndexManifest;
+	try {
+		manifest = JSON.parse(lines[0] ?? '');
+	} catch (error) {
+		throw new Error(`${normalized} is not an exported index`);
+	}
+	if (manifest.format !== FORMAT) {
+		throw new Error(`${normalized} is not an exported index`);
+	}
+	if (manifest.version !== FORMAT_VERSION) {
+		throw new Error(`Unsupported index file version ${manifest.version}`);
+	}
+
+	// Vectors of another length would make the local ones of the model count as
+	// missing, so the whole file is read and checked before anything is stored
+	const localDimensions = store.spaceInfo(manifest.space).dimensions;
+	if (localDimensions !== null && manifest.dimensions !== localDimensions) {
+		throw new Error(`The exported ${manifest.model} vectors have ${manifest.dimensions} dimensions, the local ones ${localDimensions}`);
+	}
+	const vectors: [string, Float32Array][] = [];
+	for (const [i, line] of lines.slice(1).entries()) {
+		let parsed: VectorLine;
+		try {
+			parsed = JSON.parse(line);
+		} catch (error) {
+			throw new Error(`Line ${i + 2} of ${normalized} is not a vector`);
+		}
+		if (typeof parsed?.hash !== 'string' || typeof parsed.vector !== 'string') {
+			throw new Error(`Line ${i + 2} of ${normalized} is not a vector`);
+		}
+		const buffer = base64ToArrayBuffer(parsed.vector);
+		const vector = new Float32Array(buffer, 0, Math.floor(buffer.byteLength / 4));
+		if (buffer.byteLength % 4 !== 0 || vector.length === 0 || vector.length !== manifest.dimensions) {
+			throw new Error(`The vector on line ${i + 2} of ${normalized} has ${vector.length} dimensions, the manifest ${manifest.dimensions}`);
+		}
+		vectors.push([parsed.hash, vector]);
+	}
+
+	let imported = 0;
+	let skipped = 0;
+	for (const [hash, vector] of vectors) {
+		if (store.hasVector(hash, manifest.space)) {
+			skipped++;
+			continue;
+		}
+		store.setVector(hash, vector, manifest.space);
+		imported++;
+	}
+	return { manifest, imported, skipped };
+}
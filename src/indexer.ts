@@ -0,0 +1,273 @@
+import { Events, TFile, debounce } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import { EmbeddingRateLimitError } from './rate-limiter';
+import { fileKind } from './extractors';
+import { preprocessOptionsFor } from './preprocess';
+
+// Background indexer: embeds the vault one note at a time so that
+// similarity lookups only ever read from the finished index.
+
+// Save the embedding cache after this many newly indexed notes
+const SAVE_INTERVAL = 25;
+// Wait for edits to settle before re-embedding a modified note
+const MODIFY_SETTLE_DELAY = 5000;
+// Bounds for the wait after the embedding API reports an exhausted quota
+const MIN_COOLDOWN = 60 * 1000;
+const MAX_COOLDOWN = 30 * 60 * 1000;
+
+export class VaultIndexer extends Events {
+	plugin: ThreadOfAriadne;
+	queue: Set<string> = new Set();
+	paused = false;
+	running = false;
+	// Progress of the current indexing run
+	total = 0;
+	processed = 0;
+	statusBarItem: HTMLElement;
+	// Backoff after quota errors
+	private cooldown = 0;
+	private cooldownUntil = 0;
+	private cooldownTimer: number | null = null;
+	private inFlight: Map<string, Promise<void>> = new Map();
+	private modified: Set<string> = new Set();
+	private flushModified = debounce(() => {
+		for (const path of this.modified) {
+			if (!this.queue.has(path)) {
+				this.queue.add(path);
+				this.total++;
+			}
+		}
+		this.modified.clear();
+		this.run();
+	}, MODIFY_SETTLE_DELAY, true);
+	private requestSave = debounce(() => this.plugin.saveEmbeddingCache(), 2000, true);
+
+	constructor(plugin: ThreadOfAriadne) {
+		super();
+		this.plugin = plugin;
+		this.statusBarItem = plugin.addStatusBarItem();
+		this.statusBarItem.addClass('thread-of-ariadne-status');
+		this.statusBarItem.addEventListener('click', () => {
+			if (this.paused) {
+				this.resume();
+			} else if (this.running || this.cooldownTimer !== null) {
+				this.pause();
+			}
+		});
+	}
+
+	// Queue every note whose embedding is missing or out of date
+	start() {
+		for (const file of this.plugin.indexableFiles()) {
+			if (this.plugin.isIndexStale(file)) {
+				this.enqueue(file);
+			}
+		}
+		this.run();
+	}
+
+	enqueue(file: TFile) {
+		if (this.plugin.shouldIgnoreFile(file) || this.queue.has(file.path)) return;
+		this.queue.add(file.path);
+		this.total++;
+		this.run();
+	}
+
+	// Modified notes are queued once edits have settled
+	enqueueModified(file: TFile) {
+		if (this.plugin.shouldIgnoreFile(file)) return;
+		this.modified.add(file.path);
+		// The captions of images embedded in a note are part of the images' text
+		for (const path of Object.keys(this.plugin.app.metadataCache.resolvedLinks[file.path] ?? {})) {
+			const target = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (target instanceof TFile && fileKind(target) === 'image' && !this.plugin.shouldIgnoreFile(target)) {
+				this.modified.add(path);
+			}
+		}
+		this.flushModified();
+	}
+
+	remove(path: string) {
+		this.queue.delete(path);
+		this.modified.delete(path);
+		this.plugin.neighbours.remove(path);
+		this.plugin.lexical.remove(path);
+		if (this.plugin.store.deleteNote(path)) {
+			this.requestSave();
+		}
+	}
+
+	rename(file: TFile, oldPath: string) {
+		this.queue.delete(oldPath);
+		this.modified.delete(oldPath);
+		if (this.plugin.shouldIgnoreFile(file)) {
+			this.remove(oldPath);
+			return;
+		}
+
+		this.plugin.lexical.rename(oldPath, file.path);
+		if (this.plugin.store.renameNote(oldPath, file.path)) {
+			// The content did not change, so the passages move with the note
+			this.plugin.neighbours.rename(oldPath, file.path);
+			this.requestSave();
+			// The title is part of the embedded text, so a renamed note's passages are
+			// embedded again with the new one
+			const oldName = oldPath.slice(oldPath.lastIndexOf('/') + 1);
+			if (oldName !== file.name && preprocessOptionsFor(this.plugin.app, file, this.plugin.settings).titleWeight > 0) {
+				this.plugin.store.markStale(file.path);
+				this.enqueue(file);
+			}
+		} else {
+			this.enqueue(file);
+		}
+	}
+
+	pause() {
+		this.paused = true;
+		this.clearCooldown();
+		this.updateStatus();
+	}
+
+	resume() {
+		this.paused = false;
+		this.clearCooldown();
+		this.run();
+	}
+
+	// Hold the queue until the API quota allows more requests. Without a hint from
+	// the server the wait doubles on every consecutive quota error.
+	private waitForQuota(retryAfterMs: number | null) {
+		this.cooldown = Math.min(MAX_COOLDOWN, Math.max(retryAfterMs ?? 0, this.cooldown * 2 || MIN_COOLDOWN));
+		this.cooldownUntil = Date.now() + this.cooldown;
+		this.cooldownTimer = window.setTimeout(() => {
+			this.cooldownTimer = null;
+			this.cooldownUntil = 0;
+			this.run();
+		}, this.cooldown);
+	}
+
+	private clearCooldown() {
+		if (this.cooldownTimer !== null) {
+			window.clearTimeout(this.cooldownTimer);
+			this.cooldownTimer = null;
+		}
+		this.cooldownUntil = 0;
+	}
+
+	unload() {
+		this.clearCooldown();
+		this.paused = true;
+	}
+
+	// Drop every embedding and index the vault from scratch
+	async rebuild() {
+		this.queue.clear();
+		this.total = 0;
+		this.processed = 0;
+		this.plugin.store.clear();
+		this.plugin.neighbours.reset();
+		await this.plugin.saveEmbeddingCache();
+		this.paused = false;
+		this.start();
+	}
+
+	isIndexing(): boolean {
+		return this.queue.size > 0 || this.inFlight.size > 0;
+	}
+
+	// Index a single note right away, sharing the work with the background
+	// queue if that note is already being embedded
+	async indexNow(file: TFile): Promise<void> {
+		if (this.queue.delete(file.path)) {
+			this.processed++;
+			this.updateStatus();
+		}
+		const pending = this.inFlight.get(file.path);
+		if (pending) return pending;
+
+		const task = this.plugin.getNoteEmbedding(file)
+			.then(() => undefined)
+			.finally(() => this.inFlight.delete(file.path));
+		this.inFlight.set(file.path, task);
+		return task;
+	}
+
+	private async run() {
+		if (this.running || this.paused || this.cooldownTimer !== null) {
+			this.updateStatus();
+			return;
+		}
+		this.running = true;
+		let sinceSave = 0;
+
+		try {
+			while (this.queue.size > 0 && !this.paused) {
+				const path: string = this.queue.values().next().value;
+				this.queue.delete(path);
+
+				const file = this.plugin.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile && !this.plugin.shouldIgnoreFile(file)) {
+					try {
+						await this.indexNow(file);
+						this.trigger('indexed', file);
+						this.cooldown = 0;
+						sinceSave++;
+					} catch (error) {
+						if (error instanceof EmbeddingRateLimitError) {
+							// Out of quota: put the note back and wait before trying again
+							this.queue = new Set([path, ...this.queue]);
+							this.waitForQuota(error.retryAfterMs);
+							break;
+						}
+						console.error(`Thread of Ariadne: Failed to index ${path}`, error);
+					}
+				}
+
+				this.processed++;
+				this.updateStatus();
+				if (sinceSave >= SAVE_INTERVAL) {
+					sinceSave = 0;
+					await this.plugin.saveEmbeddingCache();
+				}
+
+				// Yield so that indexing never blocks the editor
+				await sleep(0);
+			}
+		} finally {
+			this.running = false;
+		}
+
+		if (sinceSave > 0) {
+			await this.plugin.saveEmbeddingCache();
+		}
+		if (this.queue.size === 0 && !this.paused) {
+			this.total = 0;
+			this.processed = 0;
+			this.trigger('complete');
+		}
+		this.updateStatus();
+	}
+
+	updateStatus() {
+		if (this.total === 0 || (!this.running && !this.paused && this.cooldownUntil === 0 && this.queue.size === 0)) {
+			this.statusBarItem.setText('');
+			this.statusBarItem.removeAttribute('aria-label');
+			return;
+		}
+
+		const progress = `${Math.min(this.processed, this.total)}/${this.total}`;
+		if (this.cooldownUntil > 0) {
+			const seconds = Math.ceil((this.cooldownUntil - Date.now()) / 1000);
+			this.statusBarItem.setText(`⌛ Ariadne ${progress}`);
+			this.statusBarItem.setAttribute('aria-label', `API quota exhausted. Resuming in about ${seconds}s. Click to pause.`);
+		} else if (this.paused) {
+			this.statusBarItem.setText(`⏸ Ariadne ${progress}`);
+			this.statusBarItem.setAttribute('aria-label', 'Indexing paused. Click to resume.');
+		} else {
+			this.statusBarItem.setText(`⏳ Ariadne ${progress}`);
+			this.statusBarItem.setAttribute('aria-label', this.plugin.store.pendingSpace
+				? 'Re-indexing notes for the new embedding model. Click to pause.'
+				: 'Indexing notes. Click to pause.');
+		}
+	}
+}
@@ -0,0 +1,326 @@
+import { DataAdapter, Events, TFile, normalizePath } from 'obsidian';
+import { Tokenizer, hashString } from './tokenizer';
+
+// Vault-wide term statistics: how often each term occurs in each note and how
+// many notes contain it. Used to weight terms by inverse document frequency for
+// the offline embedder and for BM25 keyword scoring. Persisted in lexical.json
+// and updated incrementally.
+
+interface LexicalDocument {
+	mtime: number;
+	length: number; // Total number of terms
+	terms: Record<string, number>;
+}
+
+const LEXICAL_FILE = 'lexical.json';
+const FORMAT_VERSION = 2;
+// Local vectors depend on the IDF table. Once the vault has grown or shrunk by
+// this share since they were computed, a new generation of vectors is started.
+const GENERATION_DRIFT = 0.25;
+const MIN_GENERATION_DRIFT = 50;
+// Read this many notes before yielding to the UI during a sync
+const SYNC_BATCH = 50;
+// BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Keyword queries use only the most distinctive terms of the query text
+const MAX_QUERY_TERMS = 64;
+
+export class LexicalIndex extends Events {
+	adapter: DataAdapter;
+	dir: string;
+	docs: Map<string, LexicalDocument> = new Map();
+	tokenizer: Tokenizer;
+	// Incremented when the IDF table drifted too far from the one local vectors were computed with
+	generation = 0;
+	private generationDocs = 0;
+	// Number of notes containing each term
+	private df: Map<string, number> = new Map();
+	private totalLength = 0;
+	private syncing = false;
+	// Set when term counts were discarded, so vectors computed from them must be replaced
+	private discarded = false;
+	private dirty = false;
+
+	constructor(adapter: DataAdapter, dir: string, tokenizer: Tokenizer) {
+		super();
+		this.adapter = adapter;
+		this.dir = dir;
+		this.tokenizer = tokenizer;
+	}
+
+	get path(): string {
+		return normalizePath(`${this.dir}/${LEXICAL_FILE}`);
+	}
+
+	get size(): number {
+		return this.docs.size;
+	}
+
+	async load() {
+		if (!(await this.adapter.exists(this.path))) return;
+		try {
+			const data = JSON.parse(await this.adapter.read(this.path));
+			this.generation = data.generation ?? 0;
+			this.generationDocs = data.generationDocs ?? 0;
+			// Counts from another tokenizer are recomputed by the next sync
+			if (data.version === FORMAT_VERSION && data.tokenizer === this.tokenizer.signature) {
+				this.docs = new Map(Object.entries(data.docs ?? {}));
+			} else {
+				this.discarded = true;
+			}
+		} catch (error) {
+			console.error('Thread of Ariadne: Failed to read the term index, rebuilding it', error);
+			this.docs.clear();
+		}
+
+		this.df.clear();
+		this.totalLength = 0;
+		for (const doc of this.docs.values()) {
+			this.addCounts(doc, 1);
+		}
+	}
+
+	async save() {
+		if (!this.dirty) return;
+		this.dirty = false;
+		await this.adapter.write(this.path, JSON.stringify({
+			version: FORMAT_VERSION,
+			tokenizer: this.tokenizer.signature,
+			generation: this.generation,
+			generationDocs: this.generationDocs,
+			docs: Object.fromEntries(this.docs)
+		}));
+	}
+
+	isCurrent(path: string, mtime: number): boolean {
+		const doc = this.docs.get(path);
+		return !!doc && doc.mtime >= mtime;
+	}
+
+	update(path: string, mtime: number, text: string) {
+		const existing = this.docs.get(path);
+		if (existing) {
+			this.addCounts(existing, -1);
+		}
+
+		const terms: Record<string, number> = {};
+		let length = 0;
+		for (const [term, count] of this.tokenizer.termFrequencies(text)) {
+			terms[term] = count;
+			length += count;
+		}
+		const doc = { mtime, length, terms };
+		this.docs.set(path, doc);
+		this.addCounts(doc, 1);
+		this.dirty = true;
+		this.checkGeneration();
+	}
+
+	remove(path: string) {
+		const doc = this.docs.get(path);
+		if (!doc) return;
+		this.addCounts(doc, -1);
+		this.docs.delete(path);
+		this.dirty = true;
+		this.checkGeneration();
+	}
+
+	rename(oldPath: string, newPath: string) {
+		const doc = this.docs.get(oldPath);
+		if (!doc) return;
+		this.docs.delete(oldPath);
+		this.docs.set(newPath, doc);
+		this.dirty = true;
+	}
+
+	clear() {
+		this.docs.clear();
+		this.df.clear();
+		this.totalLength = 0;
+		this.dirty = true;
+	}
+
+	// Switch to another tokenizer. Returns true if the term counts were discarded
+	// and need a sync.
+	setTokenizer(tokenizer: Tokenizer): boolean {
+		if (tokenizer.signature === this.tokenizer.signature) return false;
+		this.tokenizer = tokenizer;
+		this.clear();
+		this.discarded = true;
+		return true;
+	}
+
+	// Bring the index up to date with `files`, reading the text of each note that
+	// changed since it was counted. Notes that no longer exist are dropped.
+	async sync(files: TFile[], read: (file: TFile) => Promise<string>) {
+		this.syncing = true;
+		try {
+			const paths = new Set(files.map(file => file.path));
+			for (const path of Array.from(this.docs.keys())) {
+				if (!paths.has(path)) this.remove(path);
+			}
+
+			let readCount = 0;
+			for (const file of files) {
+				if (this.isCurrent(file.path, file.stat.mtime)) continue;
+				try {
+					this.update(file.path, file.stat.mtime, await read(file));
+				} catch (error) {
+					console.error(`Thread of Ariadne: Failed to count terms of ${file.path}`, error);
+				}
+				if (++readCount % SYNC_BATCH === 0) {
+					await sleep(0);
+				}
+			}
+		} finally {
+			this.syncing = false;
+		}
+
+		if (this.discarded) {
+			this.discarded = false;
+			this.startGeneration();
+		} else {
+			this.checkGeneration();
+		}
+	}
+
+	// Inverse document frequency, as used by BM25. Never negative.
+	idf(term: string): number {
+		const df = this.df.get(term) ?? 0;
+		return Math.log(1 + (this.docs.size - df + 0.5) / (df + 0.5));
+	}
+
+	// TF-IDF weights of the terms in `text`, with sublinear term frequency
+	weights(text: string): Map<string, number> {
+		const weights: Map<string, number> = new Map();
+		for (const [term, count] of this.tokenizer.termFrequencies(text)) {
+			weights.set(term, (1 + Math.log(count)) * this.idf(term));
+		}
+		return weights;
+	}
+
+	// Term counts of an indexed note
+	termsOf(path: string): Map<string, number> | null {
+		const doc = this.docs.get(path);
+		return doc ? new Map(Object.entries(doc.terms)) : null;
+	}
+
+	// Term counts of free text, e.g. a search query
+	countTerms(text: string): Map<string, number> {
+		return this.tokenizer.termFrequencies(text);
+	}
+
+	// Terms two indexed notes have in common, most distinctive first. A term's
+	// weight uses the smaller of its two counts, so a word mentioned once in
+	// either note ranks low.
+	sharedTerms(a: string, b: string, limit: number): string[] {
+		const first = this.docs.get(a);
+		const second = this.docs.get(b);
+		if (!first || !second) return [];
+
+		const shared: { term: string; weight: number }[] = [];
+		for (const term of Object.keys(first.terms)) {
+			if (!Object.prototype.hasOwnProperty.call(second.terms, term)) continue;
+			const count = Math.min(first.terms[term], second.terms[term]);
+			shared.push({ term, weight: (1 + Math.log(count)) * this.idf(term) });
+		}
+		return shared
+			.sort((x, y) => y.weight - x.weight)
+			.slice(0, limit)
+			.map(({ term }) => term);
+	}
+
+	// BM25 score of every note containing terms of `query`, divided by the score a
+	// note identical to the query would get, so that scores fall between 0 and 1
+	keywordScores(query: Map<string, number>): Map<string, number> {
+		const scores: Map<string, number> = new Map();
+		if (this.docs.size === 0) return scores;
+		const averageLength = this.totalLength / this.docs.size || 1;
+		const termScore = (term: string, tf: number, length: number) =>
+			this.idf(term) * tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+
+		const terms = Array.from(query.entries())
+			.map(([term, count]) => ({ term, count, weight: (1 + Math.log(count)) * this.idf(term) }))
+			.sort((a, b) => b.weight - a.weight)
+			.slice(0, MAX_QUERY_TERMS);
+		let queryLength = 0;
+		query.forEach(count => queryLength += count);
+		const selfScore = terms.reduce((sum, { term, count }) => sum + termScore(term, count, queryLength), 0);
+		if (selfScore <= 0) return scores;
+
+		for (const [path, doc] of this.docs) {
+			let score = 0;
+			for (const { term } of terms) {
+				// Terms such as "constructor" must not hit the object prototype
+				if (Object.prototype.hasOwnProperty.call(doc.terms, term)) {
+					score += termScore(term, doc.terms[term], doc.length);
+				}
+			}
+			if (score > 0) {
+				scores.set(path, Math.min(1, score / selfScore));
+			}
+		}
+		return scores;
+	}
+
+	private addCounts(doc: LexicalDocument, delta: number) {
+		this.totalLength += doc.length * delta;
+		for (const term of Object.keys(doc.terms)) {
+			const df = (this.df.get(term) ?? 0) + delta;
+			if (df > 0) {
+				this.df.set(term, df);
+			} else {
+				this.df.delete(term);
+			}
+		}
+	}
+
+	private checkGeneration() {
+		if (this.syncing) return;
+		const drift = Math.abs(this.docs.size - this.generationDocs);
+		if (drift > Math.max(MIN_GENERATION_DRIFT, this.generationDocs * GENERATION_DRIFT)) {
+			this.startGeneration();
+		}
+	}
+
+	private startGeneration() {
+		this.generation++;
+		this.generationDocs = this.docs.size;
+		this.dirty = true;
+		this.trigger('generation', this.generation);
+	}
+}
+
+// Reduce sparse term weights to a dense vector with a sparse random projection
+// (Achlioptas): every term maps to a fixed pseudo-random vector of +1, -1 and 0
+// entries, and the term vectors are summed by weight. Cosine similarity between
+// projected vectors approximates the one between the TF-IDF vectors.
+export function projectWeights(weights: Map<string, number>, dimensions: number): number[] {
+	const vector: number[] = new Array(dimensions).fill(0);
+
+	for (const [term, weight] of weights) {
+		if (weight === 0) continue;
+		// xorshift32 seeded by the term, so each term always projects the same way
+		let state = hashString(term) || 1;
+		for (let i = 0; i < dimensions; i++) {
+			state ^= state << 13;
+			state ^= state >>> 17;
+			state ^= state << 5;
+			const bucket = (state >>> 0) % 6;
+			if (bucket === 0) {
+				vector[i] += weight;
+			} else if (bucket === 1) {
+				vector[i] -= weight;
+			}
+		}
+	}
+
+	const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	if (magnitude > 0) {
+		for (let i = 0; i < dimensions; i++) {
+			vector[i] /= magnitude;
+		}
+	}
+	return vector;
+}
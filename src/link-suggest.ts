@@ -0,0 +1,119 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestTriggerInfo, TFile, setIcon } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import type { SimilarNoteResult } from '../main';
+import { editorPassage } from './passages';
+import { displayName, fileIcon, fileKind } from './extractors';
+
+// "[[" suggestions ranked by similarity to the paragraph being written. They are
+// offered for a bare "[[" once ranked; as soon as a name is typed, Obsidian's own
+// link suggestions, which cover every note, take over.
+
+// An unfinished wikilink before the cursor, without alias, heading or block
+const OPEN_LINK_REGEX = /\[\[([^[\]|#^]*)$/;
+const MAX_SUGGESTIONS = 10;
+// Paragraphs shorter than this say too little, so the whole note is used
+const MIN_PASSAGE_LENGTH = 40;
+
+interface LinkRanking {
+	key: string; // Note path and position of the "[["
+	resolved: SimilarNoteResult[] | null;
+}
+
+// EditorSuggest.trigger is not part of the API; see SemanticLinkSuggest.retrigger
+type TriggerableSuggest = { trigger?: (editor: Editor, file: TFile, openIfClosed: boolean) => void };
+
+export class SemanticLinkSuggest extends EditorSuggest<SimilarNoteResult> {
+	plugin: ThreadOfAriadne;
+	// Notes are ranked once per link, when its "[[" is typed
+	private ranking: LinkRanking | null = null;
+
+	constructor(app: App, plugin: ThreadOfAriadne) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = MAX_SUGGESTIONS;
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to insert link' },
+			{ command: 'esc', purpose: 'to dismiss' }
+		]);
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		if (!this.plugin.settings.semanticLinkSuggest || !file) return null;
+		const match = editor.getLine(cursor.line).slice(0, cursor.ch).match(OPEN_LINK_REGEX);
+		if (!match) {
+			this.ranking = null;
+			return null;
+		}
+
+		const start = { line: cursor.line, ch: cursor.ch - match[0].length };
+		const key = `${file.path}:${start.line}:${start.ch}`;
+		if (this.ranking?.key !== key) {
+			const ranking: LinkRanking = { key, resolved: null };
+			this.ranking = ranking;
+			this.rank(editor, file)
+				.catch((error) => {
+					console.error('Thread of Ariadne: Failed to rank link suggestions', error);
+					return [];
+				})
+				.then((results) => {
+					ranking.resolved = results;
+					if (this.ranking === ranking && results.length > 0) this.retrigger(editor, file);
+				});
+		}
+
+		// Only a bare "[[" is ours, and only once the notes are ranked
+		const resolved = this.ranking.resolved;
+		if (match[1] || !resolved || resolved.length === 0) return null;
+		return { start, end: cursor, query: match[1] };
+	}
+
+	getSuggestions(): SimilarNoteResult[] {
+		return this.ranking?.resolved ?? [];
+	}
+
+	// Ask for suggestions again once the ranking is ready, as Obsidian otherwise
+	// only does on the next keystroke. Without the internal trigger the
+	// suggestions do not show for this link.
+	private retrigger(editor: Editor, file: TFile) {
+		const { trigger } = this as unknown as TriggerableSuggest;
+		if (typeof trigger === 'function') {
+			trigger.call(this, editor, file, true);
+		}
+	}
+
+	renderSuggestion(result: SimilarNoteResult, el: HTMLElement) {
+		el.addClass('thread-of-ariadne-link-suggestion');
+		if (fileKind(result.file) !== 'note') {
+			setIcon(el.createSpan({ cls: 'thread-of-ariadne-file-icon' }), fileIcon(result.file));
+		}
+		el.createSpan({ text: displayName(result.file) });
+		el.createSpan({
+			cls: 'thread-of-ariadne-score',
+			text: `${(result.score * 100).toFixed(0)}%`
+		});
+	}
+
+	selectSuggestion(result: SimilarNoteResult) {
+		const context = this.context;
+		if (!context) return;
+		const { editor, start, end, file } = context;
+		const linktext = this.app.metadataCache.fileToLinktext(result.file, file.path, fileKind(result.file) === 'note');
+
+		// Obsidian closes the brackets as "[[" is typed; replace them too
+		const after = editor.getRange(end, { line: end.line, ch: end.ch + 2 });
+		const replaceEnd = after === ']]' ? { line: end.line, ch: end.ch + 2 } : end;
+		editor.replaceRange(`[[${linktext}]]`, start, replaceEnd);
+		editor.setCursor({ line: start.line, ch: start.ch + linktext.length + 4 });
+		this.ranking = null;
+	}
+
+	private async rank(editor: Editor, file: TFile): Promise<SimilarNoteResult[]> {
+		const passage = editorPassage(editor);
+		const limit = MAX_SUGGESTIONS * 2;
+		if (passage && passage.text.trim().length >= MIN_PASSAGE_LENGTH) {
+			return this.plugin.rankSimilarToPassage(file, passage, limit);
+		}
+		return this.plugin.rankSimilarNotes(file, limit);
+	}
+}
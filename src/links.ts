@@ -0,0 +1,140 @@
+import { App, MarkdownView, TFile, parseLinktext } from 'obsidian';
+
+// Helpers for turning similarity results into real links
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const DEFAULT_HEADING_LEVEL = 2;
+
+// How two notes are already connected in the link graph
+export type LinkStatus = 'outgoing' | 'backlink' | 'mutual' | 'unlinked';
+
+// Whether `source` already links to `target`, according to the metadata cache
+export function hasOutgoingLink(app: App, source: TFile, target: TFile): boolean {
+	return !!app.metadataCache.resolvedLinks[source.path]?.[target.path];
+}
+
+export function linkStatus(app: App, source: TFile, target: TFile): LinkStatus {
+	const outgoing = hasOutgoingLink(app, source, target);
+	const backlink = hasOutgoingLink(app, target, source);
+	if (outgoing && backlink) return 'mutual';
+	if (outgoing) return 'outgoing';
+	if (backlink) return 'backlink';
+	return 'unlinked';
+}
+
+// A link to `target` written the way the vault's link settings prefer
+export function linkTo(app: App, target: TFile, source: TFile): string {
+	return app.fileManager.generateMarkdownLink(target, source.path);
+}
+
+// The open markdown editor showing `file`, preferring the active one
+export function findEditorView(app: App, file: TFile): MarkdownView | null {
+	const active = app.workspace.getActiveViewOfType(MarkdownView);
+	if (active?.file?.path === file.path) return active;
+
+	for (const leaf of app.workspace.getLeavesOfType('markdown')) {
+		if (leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path) {
+			return leaf.view;
+		}
+	}
+	return null;
+}
+
+// Insert a link to `target` at the cursor of the editor showing `source`
+export function insertLinkAtCursor(app: App, source: TFile, target: TFile): boolean {
+	const view = findEditorView(app, source);
+	if (!view) return false;
+
+	view.editor.replaceSelection(linkTo(app, target, source));
+	view.editor.focus();
+	return true;
+}
+
+// Append links to `targets` as list items under `heading` in `file`, creating the
+// heading at the end of the note if needed. `heading` may include leading #s to
+// choose its level. Links already present in that section are skipped.
+// Returns the number of links added.
+export async function appendLinksUnderHeading(app: App, file: TFile, targets: TFile[], heading: string): Promise<number> {
+	const headingMatch = heading.trim().match(HEADING_REGEX);
+	const level = headingMatch ? headingMatch[1].length : DEFAULT_HEADING_LEVEL;
+	const title = headingMatch ? headingMatch[2] : heading.trim();
+	let added = 0;
+
+	await app.vault.process(file, (content) => {
+		const lines = content.split('\n');
+		const headingIndex = lines.findIndex(line => {
+			const match = line.match(HEADING_REGEX);
+			return !!match && match[2].toLowerCase() === title.toLowerCase();
+		});
+
+		// The section runs until the next heading of the same or a higher level
+		let sectionEnd = lines.length;
+		if (headingIndex >= 0) {
+			const sectionLevel = (lines[headingIndex].match(HEADING_REGEX) as RegExpMatchArray)[1].length;
+			for (let i = headingIndex + 1; i < lines.length; i++) {
+				const match = lines[i].match(HEADING_REGEX);
+				if (match && match[1].length <= sectionLevel) {
+					sectionEnd = i;
+					break;
+				}
+			}
+		}
+		const section = headingIndex >= 0 ? lines.slice(headingIndex + 1, sectionEnd).join('\n') : '';
+
+		const newLines = targets
+			.map(target => linkTo(app, target, file))
+			.filter(link => !section.includes(link))
+			.map(link => `- ${link}`);
+		added = newLines.length;
+		if (added === 0) return content;
+
+		if (headingIndex < 0) {
+			const trimmed = content.replace(/\s+$/, '');
+			return `${trimmed}${trimmed ? '\n\n' : ''}${'#'.repeat(level)} ${title}\n${newLines.join('\n')}\n`;
+		}
+
+		// Insert after the last non-empty line of the section
+		let insertAt = sectionEnd;
+		while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+			insertAt--;
+		}
+		lines.splice(insertAt, 0, ...newLines);
+		return lines.join('\n');
+	});
+
+	return added;
+}
+
+// Point every link and embed to `from` at `to` instead, keeping headings, block
+// references and display text. Links whose text changed since the metadata cache
+// saw them are left alone. Returns the number of links changed.
+export async function redirectLinks(app: App, from: TFile, to: TFile): Promise<number> {
+	let changed = 0;
+	const sources = Object.keys(app.metadataCache.resolvedLinks)
+		.filter(path => path !== from.path && app.metadataCache.resolvedLinks[path][from.path]);
+
+	for (const path of sources) {
+		const source = app.vault.getAbstractFileByPath(path);
+		const cache = source instanceof TFile ? app.metadataCache.getFileCache(source) : null;
+		if (!(source instanceof TFile) || !cache) continue;
+
+		const references = [...(cache.links ?? []), ...(cache.embeds ?? [])]
+			.filter(reference => app.metadataCache.getFirstLinkpathDest(parseLinktext(reference.link).path, path)?.path === from.path)
+			.sort((a, b) => b.position.start.offset - a.position.start.offset);
+
+		await app.vault.process(source, (content) => {
+			// Replace from the end, so earlier offsets stay valid
+			for (const reference of references) {
+				const { start, end } = reference.position;
+				if (content.slice(start.offset, end.offset) !== reference.original) continue;
+				const { subpath } = parseLinktext(reference.link);
+				const alias = reference.displayText && reference.displayText !== reference.link ? reference.displayText : undefined;
+				const link = (reference.original.startsWith('!') ? '!' : '') + app.fileManager.generateMarkdownLink(to, path, subpath, alias);
+				content = content.slice(0, start.offset) + link + content.slice(end.offset);
+				changed++;
+			}
+			return content;
+		});
+	}
+	return changed;
+}
@@ -0,0 +1,136 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { HnswIndex } from './ann-index';
+import type { EmbeddingStore } from './embedding-store';
+
+// Keeps an HNSW graph of note-level vectors in sync with the embedding store
+// and persists it next to the stored embeddings.
+
+const ANN_FILE = 'ann.bin';
+// Rebuild the graph once this share of its nodes are deleted
+const MAX_DELETED_RATIO = 0.25;
+// Insert this many notes before yielding to the UI during a sync
+const SYNC_BATCH = 50;
+
+export class NeighbourIndex {
+	store: EmbeddingStore;
+	adapter: DataAdapter;
+	dir: string;
+	hnsw: HnswIndex;
+	// False until the graph covers every indexed note in the active space
+	ready = false;
+	private dirty = false;
+	private syncing: Promise<void> | null = null;
+
+	constructor(store: EmbeddingStore, adapter: DataAdapter, dir: string) {
+		this.store = store;
+		this.adapter = adapter;
+		this.dir = dir;
+		this.hnsw = new HnswIndex(store.space);
+	}
+
+	get path(): string {
+		return normalizePath(`${this.dir}/${ANN_FILE}`);
+	}
+
+	async load() {
+		if (await this.adapter.exists(this.path)) {
+			try {
+				const hnsw = HnswIndex.deserialize(await this.adapter.readBinary(this.path));
+				if (hnsw.space === this.store.space) {
+					this.hnsw = hnsw;
+				}
+			} catch (error) {
+				console.error('Thread of Ariadne: Failed to read the ANN index, rebuilding it', error);
+			}
+		}
+		await this.sync();
+	}
+
+	async save() {
+		if (!this.dirty || !this.ready) return;
+		this.dirty = false;
+		await this.adapter.writeBinary(this.path, this.hnsw.serialize());
+	}
+
+	// Reconcile the graph with the store: add new or changed notes, drop removed ones.
+	// Starts over when the active vector space changed or too many nodes are deleted.
+	sync(): Promise<void> {
+		if (!this.syncing) {
+			this.syncing = this.runSync().finally(() => {
+				this.syncing = null;
+			});
+		}
+		return this.syncing;
+	}
+
+	private async runSync() {
+		if (this.hnsw.space !== this.store.space || this.hnsw.deletedRatio > MAX_DELETED_RATIO) {
+			this.hnsw = new HnswIndex(this.store.space);
+			this.ready = false;
+		}
+		const hnsw = this.hnsw;
+
+		let inserted = 0;
+		for (const [path, item] of this.store.entries()) {
+			if (hnsw !== this.hnsw) return; // Reset while syncing; a new sync takes over
+			if (hnsw.version(path) !== item.mtime) {
+				hnsw.upsert(path, item.embedding, item.mtime);
+				this.dirty = true;
+				if (++inserted % SYNC_BATCH === 0) {
+					await sleep(0);
+				}
+			}
+		}
+
+		for (const path of Array.from(hnsw.liveIds())) {
+			if (!this.store.get(path)) {
+				hnsw.remove(path);
+				this.dirty = true;
+			}
+		}
+
+		this.ready = true;
+	}
+
+	// Bring one note up to date after it was (re-)embedded
+	update(path: string) {
+		if (this.hnsw.space !== this.store.space) {
+			this.sync();
+			return;
+		}
+		const item = this.store.get(path);
+		if (item && item.embedding.length > 0) {
+			this.hnsw.upsert(path, item.embedding, item.mtime);
+		} else {
+			this.hnsw.remove(path);
+		}
+		this.dirty = true;
+	}
+
+	remove(path: string) {
+		this.dirty = this.hnsw.remove(path) || this.dirty;
+		if (this.hnsw.deletedRatio > MAX_DELETED_RATIO) {
+			this.sync();
+		}
+	}
+
+	rename(oldPath: string, newPath: string) {
+		this.dirty = this.hnsw.rename(oldPath, newPath) || this.dirty;
+	}
+
+	reset() {
+		this.hnsw = new HnswIndex(this.store.space);
+		this.ready = false;
+		this.dirty = true;
+		this.sync();
+	}
+
+	// Paths of the `k` notes whose mean vectors are closest, or null while the graph is incomplete
+	nearest(vector: ArrayLike<number>, k: number): string[] | null {
+		if (!this.ready || this.hnsw.space !== this.store.space) {
+			if (this.hnsw.space !== this.store.space) this.sync();
+			return null;
+		}
+		return this.hnsw.search(vector, k).map(match => match.id);
+	}
+}
@@ -0,0 +1,46 @@
+import { App, Editor, TFile } from 'obsidian';
+import type { PassageMatch, PassageQuery } from '../main';
+import { readFileText } from './extractors';
+
+const PASSAGE_PREVIEW_LENGTH = 200;
+
+// Passage text as a single line, shortened for previews
+export async function readPassage(app: App, file: TFile, passage: PassageMatch, maxLength = PASSAGE_PREVIEW_LENGTH): Promise<string> {
+	const content = await readFileText(app, file);
+	const text = content.slice(passage.start, passage.end).replace(/\s+/g, ' ').trim();
+	return text.length > maxLength ? text.slice(0, maxLength) + '…' : text;
+}
+
+// Render a passage preview: its heading trail, then the shortened text
+export async function renderPassage(app: App, el: HTMLElement, file: TFile, passage: PassageMatch) {
+	const text = await readPassage(app, file, passage);
+
+	if (passage.heading) {
+		el.createDiv({ cls: 'thread-of-ariadne-passage-heading', text: passage.heading });
+	}
+	el.createDiv({ cls: 'thread-of-ariadne-passage-text', text });
+}
+
+// The selected text, or else the paragraph around the cursor: the lines up to
+// the nearest blank lines. Null if both are empty.
+export function editorPassage(editor: Editor): PassageQuery | null {
+	if (editor.somethingSelected()) {
+		const from = editor.getCursor('from');
+		const to = editor.getCursor('to');
+		const text = editor.getSelection();
+		if (text.trim()) {
+			return { text, start: editor.posToOffset(from), end: editor.posToOffset(to) };
+		}
+	}
+
+	const cursor = editor.getCursor();
+	if (!editor.getLine(cursor.line).trim()) return null;
+	let first = cursor.line;
+	while (first > 0 && editor.getLine(first - 1).trim()) first--;
+	let last = cursor.line;
+	while (last < editor.lastLine() && editor.getLine(last + 1).trim()) last++;
+
+	const from = { line: first, ch: 0 };
+	const to = { line: last, ch: editor.getLine(last).length };
+	return { text: editor.getRange(from, to), start: editor.posToOffset(from), end: editor.posToOffset(to) };
+}
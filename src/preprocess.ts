@@ -0,0 +1,180 @@
+import { App, TFile, parseLinktext, resolveSubpath } from 'obsidian';
+import { FRONTMATTER_REGEX, NoteChunk, chunkMarkdown } from './chunking';
+
+// Markdown-aware cleanup applied to passages before they are embedded, so that
+// markup, code, links and template boilerplate do not drown out what a note is about.
+
+export interface PreprocessOptions {
+	keepFrontmatter: boolean; // Embed the note properties as a passage of their own
+	dropCodeBlocks: boolean;
+	resolveEmbeds: boolean; // Replace ![[embeds]] with the text they show
+	titleWeight: number; // Times the note title is repeated in front of each passage
+	headingWeight: number; // Times the heading trail is repeated in front of each passage
+}
+
+export interface PreparedChunk extends NoteChunk {
+	// Text sent to the embedding provider
+	embeddingText: string;
+}
+
+// Frontmatter key holding per-note overrides, e.g. `ariadne: { titleWeight: 0 }`
+export const OVERRIDE_KEY = 'ariadne';
+
+const OPTION_KEYS: (keyof PreprocessOptions)[] = ['keepFrontmatter', 'dropCodeBlocks', 'resolveEmbeds', 'titleWeight', 'headingWeight'];
+const MAX_WEIGHT = 5;
+const PROPERTIES_HEADING = 'Properties';
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+// Dataview queries render results, not text, so they are always dropped
+const DATAVIEW_LANGUAGES = ['dataview', 'dataviewjs'];
+const INLINE_DATAVIEW_REGEX = /`\$?=[^`]*`/g;
+const EMBED_REGEX = /!\[\[([^\]]+)\]\]/g;
+const IMAGE_REGEX = /!\[([^\]]*)\]\([^)]*\)/g;
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\([^)]*\)/g;
+const URL_REGEX = /<?\bhttps?:\/\/[^\s)>\]]*[^\s)>\].,;:!?'"]>?/g;
+
+// Global options with the note's own frontmatter overrides applied
+export function preprocessOptionsFor(app: App, file: TFile, defaults: PreprocessOptions): PreprocessOptions {
+	let options: PreprocessOptions = {
+		keepFrontmatter: defaults.keepFrontmatter,
+		dropCodeBlocks: defaults.dropCodeBlocks,
+		resolveEmbeds: defaults.resolveEmbeds,
+		titleWeight: defaults.titleWeight,
+		headingWeight: defaults.headingWeight
+	};
+
+	const overrides = app.metadataCache.getFileCache(file)?.frontmatter?.[OVERRIDE_KEY];
+	if (!overrides || typeof overrides !== 'object') return options;
+
+	// Only take overrides of the right type; weights are kept in range
+	for (const key of OPTION_KEYS) {
+		const value = overrides[key];
+		if (typeof value !== typeof options[key]) continue;
+		options = {
+			...options,
+			[key]: typeof value === 'number' ? Math.max(0, Math.min(MAX_WEIGHT, Math.round(value))) : value
+		};
+	}
+	return options;
+}
+
+// Identifies the chunking and preprocessing settings a note was indexed with,
+// so that changing them re-indexes the vault
+export function preprocessSignature(options: PreprocessOptions, maxChars: number): string {
+	return [
+		maxChars,
+		options.keepFrontmatter ? 'fm' : '',
+		options.dropCodeBlocks ? 'nocode' : '',
+		options.resolveEmbeds ? 'embeds' : '',
+		`t${options.titleWeight}`,
+		`h${options.headingWeight}`
+	].join('|');
+}
+
+// Blank out fenced code blocks without moving any text, so passage offsets
+// still point into the original note
+function maskCodeBlocks(content: string, dropCodeBlocks: boolean): string {
+	const lines = content.split('\n');
+	let fence: string | null = null;
+	let masking = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = lines[i].match(FENCE_REGEX);
+		let closing = false;
+		if (fence === null) {
+			if (match) {
+				fence = match[1];
+				masking = dropCodeBlocks || DATAVIEW_LANGUAGES.includes(match[2].toLowerCase());
+			}
+		} else if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2]) {
+			closing = true;
+		}
+
+		if (fence !== null && masking) {
+			lines[i] = ' '.repeat(lines[i].length);
+		}
+		if (closing) {
+			fence = null;
+		}
+	}
+	return lines.join('\n');
+}
+
+// Drop markup that carries no meaning of its own, keeping link and image labels
+function cleanInline(text: string): string {
+	return text
+		.replace(INLINE_DATAVIEW_REGEX, '')
+		.replace(IMAGE_REGEX, '$1')
+		.replace(MARKDOWN_LINK_REGEX, '$1')
+		.replace(URL_REGEX, '')
+		.replace(/[ \t]{2,}/g, ' ')
+		.replace(/[ \t]+\n/g, '\n')
+		.trim();
+}
+
+// The text an embed shows: a whole note, one of its sections or a block.
+// Embedded images and other files contribute nothing.
+async function readEmbed(app: App, source: TFile, linktext: string, maxChars: number): Promise<string> {
+	const { path, subpath } = parseLinktext(linktext.split('|')[0]);
+	const target = app.metadataCache.getFirstLinkpathDest(path, source.path);
+	if (!target || target.extension !== 'md' || target.path === source.path) return '';
+
+	const content = await app.vault.cachedRead(target);
+	let text = content.replace(FRONTMATTER_REGEX, '');
+	const cache = app.metadataCache.getFileCache(target);
+	if (subpath && cache) {
+		const section = resolveSubpath(cache, subpath);
+		if (!section) return '';
+		text = content.slice(section.start.offset, section.end?.offset ?? content.length);
+	}
+	return cleanInline(text.replace(EMBED_REGEX, '')).slice(0, maxChars);
+}
+
+async function resolveEmbeds(app: App, file: TFile, text: string, maxChars: number): Promise<string> {
+	const links: string[] = [];
+	text.replace(EMBED_REGEX, (match, linktext: string) => {
+		links.push(linktext);
+		return match;
+	});
+	if (links.length === 0) return text;
+
+	const resolved = await Promise.all(links.map(linktext => readEmbed(app, file, linktext, maxChars)));
+	let index = 0;
+	return text.replace(EMBED_REGEX, () => resolved[index++]);
+}
+
+function embeddingText(title: string, chunk: NoteChunk, text: string, options: PreprocessOptions): string {
+	const prefix: string[] = [];
+	for (let i = 0; i < options.titleWeight; i++) prefix.push(title);
+	if (chunk.heading) {
+		for (let i = 0; i < options.headingWeight; i++) prefix.push(chunk.heading);
+	}
+	return prefix.length > 0 ? `${prefix.join('\n')}\n\n${text}` : text;
+}
+
+// Split a note into passages and prepare the text embedded for each one.
+// Passage offsets refer to the original content.
+export async function prepareNote(app: App, file: TFile, content: string, options: PreprocessOptions, maxChars: number): Promise<PreparedChunk[]> {
+	const chunks: NoteChunk[] = chunkMarkdown(maskCodeBlocks(content, options.dropCodeBlocks), maxChars);
+
+	const frontmatter = content.match(FRONTMATTER_REGEX);
+	if (options.keepFrontmatter && frontmatter) {
+		const text = frontmatter[0].replace(/^---\r?\n/, '').replace(/\r?\n---\s*$/, '').trim();
+		if (text) {
+			chunks.unshift({ heading: PROPERTIES_HEADING, text, start: 0, end: frontmatter[0].length });
+		}
+	}
+
+	const prepared: PreparedChunk[] = [];
+	for (const chunk of chunks) {
+		let text = chunk.text;
+		if (options.resolveEmbeds) {
+			text = await resolveEmbeds(app, file, text, maxChars);
+		}
+		text = cleanInline(text.replace(EMBED_REGEX, ''));
+		if (text.length === 0) continue;
+
+		prepared.push({ ...chunk, embeddingText: embeddingText(file.basename, chunk, text, options) });
+	}
+	return prepared;
+}
@@ -0,0 +1,407 @@
+import { requestUrl } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import { AdaptiveRateLimiter, EmbeddingApiError, parseRetryAfter, withRetry } from './rate-limiter';
+import { projectWeights } from './lexical-index';
+
+// Embedding providers: every backend that can turn text into a vector
+// implements EmbeddingProvider and is listed in EMBEDDING_PROVIDERS.
+
+export interface ProviderHealth {
+	ok: boolean;
+	message: string;
+}
+
+export interface EmbeddingProvider {
+	// Stable identifier stored in settings
+	readonly id: string;
+	// Human readable name shown in the UI
+	readonly name: string;
+	// Model identifier; together with `id` it names the vector space
+	readonly model: string;
+	// Server the model runs on, for providers whose servers may serve different
+	// models under one name; part of the vector space when set
+	readonly server?: string;
+	// Vector length, or null until the provider has returned a vector
+	readonly dimensions: number | null;
+	embed(text: string): Promise<number[]>;
+	embedBatch(texts: string[]): Promise<number[][]>;
+	checkHealth(): Promise<ProviderHealth>;
+}
+
+export interface EmbeddingProviderDefinition {
+	id: string;
+	name: string;
+	description: string;
+	create(plugin: ThreadOfAriadne): EmbeddingProvider;
+}
+
+export const LOCAL_PROVIDER_ID = 'local';
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-exp-03-07';
+
+// Number of texts sent per request to OpenAI-compatible and Ollama servers
+const SERVER_BATCH_SIZE = 64;
+// Request ceiling for OpenAI-compatible servers, lowered automatically when throttled
+const SERVER_RATE_PER_MINUTE = 600;
+// batchEmbedContents accepts at most 100 requests per call
+const GEMINI_BATCH_SIZE = 100;
+
+// Strip trailing slashes so we can safely append endpoint paths
+function trimBaseUrl(url: string): string {
+	return url.trim().replace(/\/+$/, '');
+}
+
+// Split an array into batches of at most `size` items
+function toBatches<T>(items: T[], size: number): T[][] {
+	const batches: T[][] = [];
+	for (let i = 0; i < items.length; i += size) {
+		batches.push(items.slice(i, i + size));
+	}
+	return batches;
+}
+
+// Offline embeddings: TF-IDF weights from the vault's term index, reduced to a
+// dense vector by random projection. The model name includes the IDF generation,
+// so vectors computed against an outdated IDF table are replaced.
+export class LocalLexicalProvider implements EmbeddingProvider {
+	readonly id = LOCAL_PROVIDER_ID;
+	readonly name = 'Local';
+	plugin: ThreadOfAriadne;
+
+	constructor(plugin: ThreadOfAriadne) {
+		this.plugin = plugin;
+	}
+
+	get dimensions(): number {
+		return this.plugin.settings.localDimensions;
+	}
+
+	get model(): string {
+		return `tfidf-${this.dimensions}-g${this.plugin.lexical.generation}`;
+	}
+
+	async embed(text: string): Promise<number[]> {
+		return projectWeights(this.plugin.lexical.weights(text), this.dimensions);
+	}
+
+	async embedBatch(texts: string[]): Promise<number[][]> {
+		return texts.map(text => projectWeights(this.plugin.lexical.weights(text), this.dimensions));
+	}
+
+	async checkHealth(): Promise<ProviderHealth> {
+		return { ok: true, message: `Local embeddings are always available (${this.plugin.lexical.size} notes in the term index).` };
+	}
+}
+
+// Google Gemini embeddings API
+export class GeminiProvider implements EmbeddingProvider {
+	readonly id = 'gemini';
+	readonly name = 'Gemini';
+	readonly model = GEMINI_EMBEDDING_MODEL;
+	dimensions: number | null = null;
+	plugin: ThreadOfAriadne;
+	limiter: AdaptiveRateLimiter;
+
+	constructor(plugin: ThreadOfAriadne) {
+		this.plugin = plugin;
+		this.limiter = new AdaptiveRateLimiter(plugin.settings.rateLimitPerMinute);
+	}
+
+	async embed(text: string): Promise<number[]> {
+		const [embedding] = await this.embedBatch([text]);
+		return embedding;
+	}
+
+	// Embed texts with batchEmbedContents, up to GEMINI_BATCH_SIZE texts per request
+	async embedBatch(texts: string[]): Promise<number[][]> {
+		// Validate API key
+		if (!this.plugin.settings.apiKey || this.plugin.settings.apiKey.trim() === '') {
+			throw new Error('Missing Gemini API key. Please add it in settings.');
+		}
+		this.limiter.setRate(this.plugin.settings.rateLimitPerMinute);
+
+		const embeddings: number[][] = [];
+		for (const batch of toBatches(texts, GEMINI_BATCH_SIZE)) {
+			embeddings.push(...await withRetry(this.limiter, () => this.requestBatch(batch)));
+		}
+		return embeddings;
+	}
+
+	async checkHealth(): Promise<ProviderHealth> {
+		if (!this.plugin.settings.apiKey || this.plugin.settings.apiKey.trim() === '') {
+			return { ok: false, message: 'Missing Gemini API key.' };
+		}
+		try {
+			const embedding = await this.embed('Thread of Ariadne connection test');
+			return { ok: true, message: `Connected to ${this.model} (${embedding.length} dimensions).` };
+		} catch (error) {
+			return { ok: false, message: String(error instanceof Error ? error.message : error) };
+		}
+	}
+
+	private async requestBatch(texts: string[]): Promise<number[][]> {
+		const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents`;
+
+		// Prepare the request body
+		const requestBody = {
+			requests: texts.map(text => ({
+				model: `models/${this.model}`,
+				content: {
+					parts: [
+						{
+							// For text with significant non-Latin content, we add a hint to improve multilingual processing
+							text: /[\u4E00-\u9FFF\u3040-\u309F\u30A0-\u30FF\uAC00-\uD7AF]{5,}/.test(text) ?
+								`Content for multilingual semantic embedding: ${text}` :
+								text
+						}
+					]
+				}
+			}))
+		};
+
+		// Show a status indicator for API calls
+		const statusBarItem = this.plugin.addStatusBarItem();
+		statusBarItem.setText(`⏳ Generating ${texts.length} embedding${texts.length === 1 ? '' : 's'}...`);
+
+		let response: Response;
+		try {
+			// Make the API request
+			response = await fetch(`${url}?key=${this.plugin.settings.apiKey}`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify(requestBody)
+			});
+		} finally {
+			// Clean up status bar
+			statusBarItem.remove();
+		}
+
+		// Handle error responses
+		if (!response.ok) {
+			const errorData = await response.json().catch(() => null);
+			let errorMessage = `API Error (${response.status})`;
+
+			// Extract useful error information if available
+			if (errorData && errorData.error) {
+				errorMessage = `${errorData.error.message || errorMessage} (${errorData.error.status || 'unknown'})`;
+				console.error('Gemini API error details:', errorData.error);
+			}
+
+			// Quota errors carry the wait time in Retry-After or in a RetryInfo detail such as "30s"
+			const retryInfo = (errorData?.error?.details ?? [])
+				.find((detail: { retryDelay?: string }) => typeof detail?.retryDelay === 'string');
+			const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+				?? (retryInfo ? parseFloat(retryInfo.retryDelay) * 1000 : null);
+
+			throw new EmbeddingApiError(errorMessage, response.status, retryAfterMs);
+		}
+
+		const data = await response.json();
+
+		// Validate the response contains what we expect
+		const embeddings: { values?: number[] }[] | undefined = data?.embeddings;
+		if (!Array.isArray(embeddings) || embeddings.length !== texts.length ||
+			embeddings.some(embedding => !Array.isArray(embedding.values))) {
+			console.error('Unexpected API response format:', data);
+			throw new Error('Invalid API response format');
+		}
+
+		// The Gemini API returns a 3072-dimensional vector; we'll use it as is
+		const values = embeddings.map(embedding => embedding.values as number[]);
+		this.dimensions = values[0]?.length ?? this.dimensions;
+		return values;
+	}
+}
+
+// Any server implementing the OpenAI `/v1/embeddings` endpoint
+// (OpenAI itself, vLLM, LM Studio, text-embeddings-inference, LiteLLM, ...)
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+	readonly id = 'openai';
+	readonly name = 'OpenAI-compatible';
+	// Fixed when created; a new provider is created once a model name or server
+	// URL is typed out
+	readonly model: string;
+	readonly baseUrl: string;
+	readonly server: string;
+	dimensions: number | null = null;
+	plugin: ThreadOfAriadne;
+	// Hosted APIs enforce their own limits; this only smooths bursts and handles 429s
+	limiter = new AdaptiveRateLimiter(SERVER_RATE_PER_MINUTE);
+
+	constructor(plugin: ThreadOfAriadne) {
+		this.plugin = plugin;
+		this.model = plugin.settings.openaiModel;
+		this.baseUrl = trimBaseUrl(plugin.settings.openaiBaseUrl);
+		this.server = this.baseUrl.replace(/^[a-z]+:\/\//i, '').toLowerCase();
+	}
+
+	async embed(text: string): Promise<number[]> {
+		const [embedding] = await this.embedBatch([text]);
+		return embedding;
+	}
+
+	async embedBatch(texts: string[]): Promise<number[][]> {
+		const embeddings: number[][] = [];
+		for (const batch of toBatches(texts, SERVER_BATCH_SIZE)) {
+			embeddings.push(...await withRetry(this.limiter, () => this.requestEmbeddings(batch)));
+		}
+		return embeddings;
+	}
+
+	async checkHealth(): Promise<ProviderHealth> {
+		if (!this.baseUrl) {
+			return { ok: false, message: 'Missing server URL.' };
+		}
+		try {
+			const embedding = await this.embed('Thread of Ariadne connection test');
+			return { ok: true, message: `Connected to ${this.model} (${embedding.length} dimensions).` };
+		} catch (error) {
+			return { ok: false, message: String(error instanceof Error ? error.message : error) };
+		}
+	}
+
+	private async requestEmbeddings(input: string[]): Promise<number[][]> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.plugin.settings.openaiApiKey) {
+			headers['Authorization'] = `Bearer ${this.plugin.settings.openaiApiKey}`;
+		}
+
+		const response = await requestUrl({
+			url: `${this.baseUrl}/embeddings`,
+			method: 'POST',
+			headers,
+			body: JSON.stringify({ model: this.model, input }),
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			let message = `API Error (${response.status})`;
+			try {
+				message = response.json?.error?.message || message;
+			} catch (error) {
+				// Not every server returns JSON errors
+			}
+			throw new EmbeddingApiError(message, response.status, parseRetryAfter(response.headers['retry-after']));
+		}
+
+		const data: { index: number; embedding: number[] }[] = response.json?.data;
+		if (!Array.isArray(data) || data.length !== input.length) {
+			console.error('Unexpected API response format:', response.json);
+			throw new Error('Invalid API response format');
+		}
+
+		// Servers may return items out of order; `index` is authoritative
+		const embeddings = data
+			.slice()
+			.sort((a, b) => a.index - b.index)
+			.map(item => item.embedding);
+		this.dimensions = embeddings[0]?.length ?? this.dimensions;
+		return embeddings;
+	}
+}
+
+// A local Ollama server (https://ollama.com)
+export class OllamaProvider implements EmbeddingProvider {
+	readonly id = 'ollama';
+	readonly name = 'Ollama';
+	readonly model: string;
+	dimensions: number | null = null;
+	plugin: ThreadOfAriadne;
+
+	constructor(plugin: ThreadOfAriadne) {
+		this.plugin = plugin;
+		this.model = plugin.settings.ollamaModel;
+	}
+
+	get baseUrl(): string {
+		return trimBaseUrl(this.plugin.settings.ollamaBaseUrl);
+	}
+
+	async embed(text: string): Promise<number[]> {
+		const [embedding] = await this.embedBatch([text]);
+		return embedding;
+	}
+
+	async embedBatch(texts: string[]): Promise<number[][]> {
+		const embeddings: number[][] = [];
+		for (const batch of toBatches(texts, SERVER_BATCH_SIZE)) {
+			const response = await requestUrl({
+				url: `${this.baseUrl}/api/embed`,
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ model: this.model, input: batch }),
+				throw: false
+			});
+
+			if (response.status >= 400) {
+				throw new Error(response.json?.error || `Ollama Error (${response.status})`);
+			}
+
+			const result: number[][] = response.json?.embeddings;
+			if (!Array.isArray(result) || result.length !== batch.length) {
+				console.error('Unexpected Ollama response format:', response.json);
+				throw new Error('Invalid Ollama response format');
+			}
+			embeddings.push(...result);
+		}
+		this.dimensions = embeddings[0]?.length ?? this.dimensions;
+		return embeddings;
+	}
+
+	async checkHealth(): Promise<ProviderHealth> {
+		try {
+			const response = await requestUrl({ url: `${this.baseUrl}/api/tags`, throw: false });
+			if (response.status >= 400) {
+				return { ok: false, message: `Ollama responded with ${response.status}.` };
+			}
+
+			// Model names are reported with a tag, e.g. `nomic-embed-text:latest`
+			const models: { name: string }[] = response.json?.models || [];
+			const installed = models.some(m => m.name === this.model || m.name.split(':')[0] === this.model);
+			if (!installed) {
+				return { ok: false, message: `Model "${this.model}" is not installed. Run: ollama pull ${this.model}` };
+			}
+			return { ok: true, message: `Connected to Ollama, model ${this.model} is available.` };
+		} catch (error) {
+			return { ok: false, message: `Cannot reach Ollama at ${this.baseUrl}.` };
+		}
+	}
+}
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderDefinition[] = [
+	{
+		id: LOCAL_PROVIDER_ID,
+		name: 'Local (offline)',
+		description: 'Built-in TF-IDF keyword model with stemming. Works offline; matches shared terms rather than meaning.',
+		create: (plugin) => new LocalLexicalProvider(plugin)
+	},
+	{
+		id: 'gemini',
+		name: 'Google Gemini',
+		description: 'Google Gemini API for high-quality embeddings (requires API key).',
+		create: (plugin) => new GeminiProvider(plugin)
+	},
+	{
+		id: 'openai',
+		name: 'OpenAI-compatible server',
+		description: 'Any server exposing an OpenAI-style /v1/embeddings endpoint, including self-hosted ones.',
+		create: (plugin) => new OpenAICompatibleProvider(plugin)
+	},
+	{
+		id: 'ollama',
+		name: 'Ollama',
+		description: 'A local Ollama server running an embedding model.',
+		create: (plugin) => new OllamaProvider(plugin)
+	}
+];
+
+// Vectors from different providers or models live in different spaces and must never be compared
+export function vectorSpaceId(provider: EmbeddingProvider): string {
+	const space = `${provider.id}/${provider.model}`;
+	return provider.server ? `${space}@${provider.server}` : space;
+}
+
+export function getProviderDefinition(id: string): EmbeddingProviderDefinition {
+	return EMBEDDING_PROVIDERS.find(p => p.id === id) ?? EMBEDDING_PROVIDERS[0];
+}
@@ -0,0 +1,69 @@
+// Hybrid ranking: the semantic (embedding) score fused with keyword, tag, link
+// and folder signals. Every component is a number between 0 and 1.
+
+export type RankingMode = 'weighted' | 'rrf';
+
+export interface ScoreComponents {
+	semantic: number; // Passage embedding similarity
+	keyword: number; // BM25 over the vault term index
+	tags: number; // Overlap of tags
+	links: number; // Overlap of outgoing link targets
+	folder: number; // Closeness in the folder tree
+}
+
+export type RankingWeights = ScoreComponents;
+
+export const SCORE_COMPONENTS: (keyof ScoreComponents)[] = ['semantic', 'keyword', 'tags', 'links', 'folder'];
+
+// Damping constant of reciprocal rank fusion, as in Cormack et al. (2009)
+const RRF_K = 60;
+
+// Jaccard similarity of two sets
+export function overlap(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 || b.size === 0) return 0;
+	let shared = 0;
+	a.forEach(item => {
+		if (b.has(item)) shared++;
+	});
+	return shared / (a.size + b.size - shared);
+}
+
+// 1 for notes in the same folder, halving with every step through the folder tree
+export function folderProximity(a: string, b: string): number {
+	const aParts = a.split('/').slice(0, -1);
+	const bParts = b.split('/').slice(0, -1);
+	let common = 0;
+	while (common < aParts.length && common < bParts.length && aParts[common] === bParts[common]) {
+		common++;
+	}
+	const steps = (aParts.length - common) + (bParts.length - common);
+	return 1 / 2 ** steps;
+}
+
+// Combine the components of each candidate into one score between 0 and 1.
+// - weighted: the weighted sum, capped at 1. With a semantic weight of 1, the other
+//   components act as boosts on top of the embedding similarity.
+// - rrf: reciprocal rank fusion of the per-component rankings, relative to a
+//   candidate that ranks first everywhere. Components a candidate scores 0 on
+//   do not contribute.
+export function fuseScores(candidates: ScoreComponents[], weights: RankingWeights, mode: RankingMode): number[] {
+	if (mode === 'weighted') {
+		return candidates.map(components => Math.min(1, SCORE_COMPONENTS.reduce(
+			(sum, key) => sum + weights[key] * components[key], 0
+		)));
+	}
+
+	const fused: number[] = new Array(candidates.length).fill(0);
+	let best = 0;
+	for (const key of SCORE_COMPONENTS) {
+		if (weights[key] === 0) continue;
+		best += weights[key] / (RRF_K + 1);
+		const order = Array.from(candidates.keys())
+			.filter(i => candidates[i][key] > 0)
+			.sort((a, b) => candidates[b][key] - candidates[a][key]);
+		order.forEach((candidate, rank) => {
+			fused[candidate] += weights[key] / (RRF_K + rank + 1);
+		});
+	}
+	return best > 0 ? fused.map(score => score / best) : fused;
+}
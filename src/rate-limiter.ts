@@ -0,0 +1,140 @@
+// Client-side throttling and retries for embedding APIs. State is kept in
+// memory only; nothing here is persisted with the settings.
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 60000;
+
+// Thrown when the API keeps rejecting requests for quota reasons after all retries
+export class EmbeddingRateLimitError extends Error {
+	// How long the server asked us to wait, if it said so
+	retryAfterMs: number | null;
+
+	constructor(message: string, retryAfterMs: number | null) {
+		super(message);
+		this.name = 'EmbeddingRateLimitError';
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+// An HTTP error from an embedding API, carrying what is needed to decide on a retry
+export class EmbeddingApiError extends Error {
+	status: number;
+	retryAfterMs: number | null;
+
+	constructor(message: string, status: number, retryAfterMs: number | null = null) {
+		super(message);
+		this.name = 'EmbeddingApiError';
+		this.status = status;
+		this.retryAfterMs = retryAfterMs;
+	}
+
+	get isRateLimit(): boolean {
+		return this.status === 429 || this.message.includes('RESOURCE_EXHAUSTED');
+	}
+
+	get isRetryable(): boolean {
+		return this.isRateLimit || this.status >= 500;
+	}
+}
+
+// Parse a Retry-After header: either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | null {
+	if (!value) return null;
+	const seconds = Number(value);
+	if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Token bucket whose rate backs off when the server throttles us and
+// recovers gradually while requests succeed (additive increase, multiplicative decrease)
+export class AdaptiveRateLimiter {
+	private configuredRate: number;
+	private currentRate: number;
+	private tokens: number;
+	private lastRefill = Date.now();
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(ratePerMinute: number) {
+		this.configuredRate = ratePerMinute;
+		this.currentRate = ratePerMinute;
+		this.tokens = ratePerMinute;
+	}
+
+	get rate(): number {
+		return this.currentRate;
+	}
+
+	setRate(ratePerMinute: number) {
+		if (ratePerMinute === this.configuredRate) return;
+		this.configuredRate = ratePerMinute;
+		this.currentRate = Math.min(this.currentRate, ratePerMinute);
+	}
+
+	// Resolve once a request may be sent. Callers are served in order.
+	take(): Promise<void> {
+		const turn = this.queue.then(() => this.waitForToken());
+		this.queue = turn.catch(() => undefined);
+		return turn;
+	}
+
+	onSuccess() {
+		this.currentRate = Math.min(this.configuredRate, this.currentRate + 1);
+	}
+
+	onThrottled() {
+		this.currentRate = Math.max(1, Math.floor(this.currentRate / 2));
+		this.tokens = Math.min(this.tokens, 0);
+	}
+
+	private refill() {
+		const now = Date.now();
+		const perMs = this.currentRate / 60000;
+		this.tokens = Math.min(this.currentRate, this.tokens + (now - this.lastRefill) * perMs);
+		this.lastRefill = now;
+	}
+
+	private async waitForToken() {
+		this.refill();
+		while (this.tokens < 1) {
+			const waitMs = Math.ceil((1 - this.tokens) / (this.currentRate / 60000));
+			await sleep(waitMs);
+			this.refill();
+		}
+		this.tokens -= 1;
+	}
+}
+
+// Run `request` through the limiter, retrying throttled and transient failures with
+// exponential backoff. The server's requested delay wins over our own when it is longer.
+export async function withRetry<T>(limiter: AdaptiveRateLimiter, request: () => Promise<T>): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		await limiter.take();
+		try {
+			const result = await request();
+			limiter.onSuccess();
+			return result;
+		} catch (error) {
+			const apiError = error instanceof EmbeddingApiError ? error : null;
+			// Network failures surface as TypeError from fetch and net:: errors from requestUrl
+			const retryable = apiError
+				? apiError.isRetryable
+				: error instanceof TypeError || String(error).includes('net::');
+			if (apiError?.isRateLimit) {
+				limiter.onThrottled();
+			}
+
+			if (!retryable || attempt >= MAX_ATTEMPTS) {
+				if (apiError?.isRateLimit) {
+					throw new EmbeddingRateLimitError(apiError.message, apiError.retryAfterMs);
+				}
+				throw error;
+			}
+
+			const backoff = Math.min(MAX_DELAY, BASE_DELAY * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+			const delay = Math.max(backoff, apiError?.retryAfterMs ?? 0);
+			await sleep(delay);
+		}
+	}
+}
@@ -0,0 +1,88 @@
+import { App, Keymap, SuggestModal, setIcon } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import type { SimilarNoteResult } from '../main';
+import { renderPassage } from './passages';
+import { displayName, fileIcon, fileKind } from './extractors';
+
+// Wait for the user to stop typing before embedding the query
+const QUERY_DELAY = 350;
+const MAX_RESULTS = 20;
+const NO_RESULTS_TEXT = 'No matching notes.';
+
+// Free-text search ranked by embedding similarity instead of keywords
+export class SemanticSearchModal extends SuggestModal<SimilarNoteResult> {
+	plugin: ThreadOfAriadne;
+	private latestQuery = '';
+	private lastResults: SimilarNoteResult[] = [];
+
+	constructor(app: App, plugin: ThreadOfAriadne) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = MAX_RESULTS;
+		this.emptyStateText = NO_RESULTS_TEXT;
+		this.setPlaceholder('Describe what you are looking for...');
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to open' },
+			{ command: 'mod ↵', purpose: 'to open in new pane' },
+			{ command: 'esc', purpose: 'to dismiss' }
+		]);
+
+		// Mod+Enter opens the selected note in a new pane
+		this.scope.register(['Mod'], 'Enter', (evt) => {
+			this.selectActiveSuggestion(evt);
+			return false;
+		});
+	}
+
+	async getSuggestions(query: string): Promise<SimilarNoteResult[]> {
+		this.latestQuery = query;
+		if (query.trim().length === 0) {
+			this.lastResults = [];
+			return [];
+		}
+
+		await sleep(QUERY_DELAY);
+		// A newer query has been typed; keep showing the current results
+		if (query !== this.latestQuery) {
+			return this.lastResults;
+		}
+
+		this.emptyStateText = NO_RESULTS_TEXT;
+		try {
+			this.lastResults = await this.plugin.searchNotes(query, MAX_RESULTS);
+		} catch (error) {
+			console.error('Thread of Ariadne: Semantic search failed', error);
+			this.emptyStateText = `Search failed: ${error instanceof Error ? error.message : error}`;
+			this.lastResults = [];
+		}
+		return this.lastResults;
+	}
+
+	renderSuggestion(result: SimilarNoteResult, el: HTMLElement) {
+		el.addClass('thread-of-ariadne-search-result');
+		const titleEl = el.createDiv({ cls: 'thread-of-ariadne-search-title' });
+		if (fileKind(result.file) !== 'note') {
+			setIcon(titleEl.createSpan({ cls: 'thread-of-ariadne-file-icon' }), fileIcon(result.file));
+		}
+		titleEl.createSpan({ text: displayName(result.file) });
+		titleEl.createSpan({
+			cls: 'thread-of-ariadne-score',
+			text: `${(result.score * 100).toFixed(0)}%`
+		});
+
+		if (result.file.parent && !result.file.parent.isRoot()) {
+			el.createDiv({ cls: 'thread-of-ariadne-search-path', text: result.file.parent.path });
+		}
+
+		if (result.matchedPassage) {
+			const passageEl = el.createDiv({ cls: 'thread-of-ariadne-passage' });
+			renderPassage(this.app, passageEl, result.file, result.matchedPassage)
+				.catch(error => console.error('Thread of Ariadne: Failed to show the matched passage', error));
+		}
+	}
+
+	onChooseSuggestion(result: SimilarNoteResult, evt: MouseEvent | KeyboardEvent) {
+		this.app.workspace.openLinkText(result.file.path, '', Keymap.isModEvent(evt));
+	}
+}
@@ -0,0 +1,86 @@
+// Vector similarity helpers shared by the sidebar and search features
+
+export type ChunkAggregation = 'max' | 'top-k-mean';
+
+export interface ChunkMatch {
+	// Aggregated note-to-note score
+	score: number;
+	// Indices of the best-matching passage pair
+	sourceIndex: number;
+	targetIndex: number;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	if (a.length !== b.length) return 0;
+
+	let dotProduct = 0;
+	let normA = 0;
+	let normB = 0;
+
+	for (let i = 0; i < a.length; i++) {
+		dotProduct += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+
+	if (normA === 0 || normB === 0) return 0;
+
+	return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Mean of a set of vectors, scaled to unit length
+export function meanVector(vectors: ArrayLike<number>[]): number[] {
+	if (vectors.length === 0) return [];
+
+	const mean = new Array(vectors[0].length).fill(0);
+	for (const vector of vectors) {
+		for (let i = 0; i < mean.length; i++) {
+			mean[i] += vector[i];
+		}
+	}
+
+	const magnitude = Math.sqrt(mean.reduce((sum, val) => sum + val * val, 0));
+	if (magnitude > 0) {
+		for (let i = 0; i < mean.length; i++) {
+			mean[i] /= magnitude;
+		}
+	}
+	return mean;
+}
+
+// Score two notes from their passage embeddings.
+// - `max`: the single best passage pair decides the score
+// - `top-k-mean`: every source passage is matched with its best target passage,
+//   and the `k` strongest of those matches are averaged
+export function scoreChunkMatches(
+	source: ArrayLike<number>[],
+	target: ArrayLike<number>[],
+	aggregation: ChunkAggregation,
+	k: number
+): ChunkMatch {
+	const best: ChunkMatch = { score: 0, sourceIndex: -1, targetIndex: -1 };
+	const perSourceBest: number[] = [];
+
+	for (let i = 0; i < source.length; i++) {
+		let sourceBest = 0;
+		for (let j = 0; j < target.length; j++) {
+			const similarity = cosineSimilarity(source[i], target[j]);
+			if (similarity > sourceBest) {
+				sourceBest = similarity;
+			}
+			if (similarity > best.score) {
+				best.score = similarity;
+				best.sourceIndex = i;
+				best.targetIndex = j;
+			}
+		}
+		perSourceBest.push(sourceBest);
+	}
+
+	if (aggregation === 'top-k-mean' && perSourceBest.length > 0) {
+		const top = perSourceBest.sort((a, b) => b - a).slice(0, Math.max(1, k));
+		best.score = top.reduce((sum, val) => sum + val, 0) / top.length;
+	}
+
+	return best;
+}
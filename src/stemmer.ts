@@ -0,0 +1,151 @@
+// Porter stemmer for English, so that "linking", "linked" and "links"
+// all count as the same term. Follows M.F. Porter, "An algorithm for suffix
+// stripping" (1980), including the later "bli" and "logi" rules.
+
+function isConsonant(word: string, i: number): boolean {
+	switch (word[i]) {
+		case 'a': case 'e': case 'i': case 'o': case 'u':
+			return false;
+		case 'y':
+			return i === 0 || !isConsonant(word, i - 1);
+		default:
+			return true;
+	}
+}
+
+// Number of vowel-consonant sequences in the stem, the "m" of the paper
+function measure(stem: string): number {
+	let m = 0;
+	let i = 0;
+	const n = stem.length;
+	while (i < n && isConsonant(stem, i)) i++;
+	while (i < n) {
+		while (i < n && !isConsonant(stem, i)) i++;
+		if (i >= n) break;
+		while (i < n && isConsonant(stem, i)) i++;
+		m++;
+	}
+	return m;
+}
+
+function hasVowel(stem: string): boolean {
+	for (let i = 0; i < stem.length; i++) {
+		if (!isConsonant(stem, i)) return true;
+	}
+	return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+	const n = word.length;
+	return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+	const n = word.length;
+	return n >= 3
+		&& isConsonant(word, n - 3)
+		&& !isConsonant(word, n - 2)
+		&& isConsonant(word, n - 1)
+		&& !'wxy'.includes(word[n - 1]);
+}
+
+// Replace the first matching suffix whose remaining stem has a measure above `minMeasure`
+function replaceSuffix(word: string, rules: [string, string][], minMeasure: number): string {
+	for (const [suffix, replacement] of rules) {
+		if (word.endsWith(suffix)) {
+			const stem = word.slice(0, -suffix.length);
+			return measure(stem) > minMeasure ? stem + replacement : word;
+		}
+	}
+	return word;
+}
+
+const STEP2_RULES: [string, string][] = [
+	['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+	['izer', 'ize'], ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+	['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+	['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+	['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+];
+
+const STEP3_RULES: [string, string][] = [
+	['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+	['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+	'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment',
+	'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+function step1(word: string): string {
+	// Plurals
+	if (word.endsWith('sses') || word.endsWith('ies')) {
+		word = word.slice(0, -2);
+	} else if (word.endsWith('s') && !word.endsWith('ss')) {
+		word = word.slice(0, -1);
+	}
+
+	// Past tense and gerunds
+	let stripped = false;
+	if (word.endsWith('eed')) {
+		if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+	} else if (word.endsWith('ed') && hasVowel(word.slice(0, -2))) {
+		word = word.slice(0, -2);
+		stripped = true;
+	} else if (word.endsWith('ing') && hasVowel(word.slice(0, -3))) {
+		word = word.slice(0, -3);
+		stripped = true;
+	}
+	if (stripped) {
+		if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+			word += 'e';
+		} else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+			word = word.slice(0, -1);
+		} else if (measure(word) === 1 && endsWithCvc(word)) {
+			word += 'e';
+		}
+	}
+
+	if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+		word = word.slice(0, -1) + 'i';
+	}
+	return word;
+}
+
+function step4(word: string): string {
+	for (const suffix of STEP4_SUFFIXES) {
+		if (word.endsWith(suffix)) {
+			const stem = word.slice(0, -suffix.length);
+			if (suffix === 'ion' && !(stem.endsWith('s') || stem.endsWith('t'))) return word;
+			return measure(stem) > 1 ? stem : word;
+		}
+	}
+	return word;
+}
+
+function step5(word: string): string {
+	if (word.endsWith('e')) {
+		const stem = word.slice(0, -1);
+		const m = measure(stem);
+		if (m > 1 || (m === 1 && !endsWithCvc(stem))) {
+			word = stem;
+		}
+	}
+	if (word.endsWith('ll') && measure(word) > 1) {
+		word = word.slice(0, -1);
+	}
+	return word;
+}
+
+// Stem a lowercase English word. Words of up to two letters are returned unchanged.
+export function stem(word: string): string {
+	if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+	word = step1(word);
+	word = replaceSuffix(word, STEP2_RULES, 0);
+	word = replaceSuffix(word, STEP3_RULES, 0);
+	word = step4(word);
+	return step5(word);
+}
@@ -0,0 +1,348 @@
+import { stem } from './stemmer';
+
+// Turns text into the terms the lexical index counts. Each script is segmented
+// its own way:
+// - Latin, Greek and Cyrillic words are folded to lowercase without accents;
+//   English words are stemmed and stopwords dropped
+// - Chinese and Japanese kanji are split into dictionary words where the concept
+//   maps know them, and into overlapping character pairs elsewhere
+// - Katakana runs are kept as words; hiragana directly after kanji (inflections
+//   and particles) is dropped
+// - Korean words lose their trailing particles and common verb endings
+// Words listed together in a concept map also count as a shared concept term,
+// so that notes in different languages can match.
+
+type Script = 'word' | 'han' | 'hiragana' | 'katakana' | 'hangul';
+
+interface Token {
+	term: string;
+	script: Script;
+}
+
+// Bump when segmentation changes, so that stored term counts are recomputed
+const TOKENIZER_VERSION = 3;
+
+// Runs of one script: CJK ideographs; Hiragana; Katakana; Hangul; and words of
+// letters, with their combining marks, and digits in any other script
+const RUN_REGEX = /[\u3400-\u4DBF\u4E00-\u9FFF]+|[\u3040-\u309F]+|[\u30A0-\u30FF]+|[\uAC00-\uD7AF]+|(?:(?![\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF])[\p{L}\p{N}]\p{M}*)+/gu;
+const HAN_REGEX = /^[\u3400-\u4DBF\u4E00-\u9FFF]+$/;
+const HIRAGANA_REGEX = /^[\u3040-\u309F]/;
+const KATAKANA_REGEX = /^[\u30A0-\u30FF]/;
+const HANGUL_REGEX = /^[\uAC00-\uD7AF]/;
+const COMBINING_MARKS_REGEX = /[\u0300-\u036F]/g;
+
+const MIN_WORD_LENGTH = 2;
+const BIGRAM_SEPARATOR = ' ';
+const CONCEPT_PREFIX = 'concept:';
+
+const ENGLISH_STOPWORDS = new Set([
+	'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any',
+	'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both',
+	'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few',
+	'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers',
+	'herself', 'him', 'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+	'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of',
+	'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+	'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs',
+	'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+	'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+	'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours',
+	'yourself', 'yourselves'
+]);
+
+// Function characters that appear in almost every Chinese sentence. They also
+// break character pairs, so that "的" does not glue unrelated words together.
+const HAN_STOPWORDS = new Set([
+	'的', '了', '是', '在', '和', '也', '就', '都', '而', '及', '与', '着', '或', '这', '那',
+	'之', '其', '个', '们', '有', '不', '我', '你', '他', '她', '它'
+]);
+
+const HIRAGANA_STOPWORDS = new Set([
+	'これ', 'それ', 'あれ', 'この', 'その', 'あの', 'こと', 'もの', 'ため', 'よう', 'です',
+	'ます', 'でした', 'ました', 'して', 'いる', 'ある', 'なる', 'する', 'から', 'まで', 'など',
+	'また', 'そして', 'しかし'
+]);
+
+const HANGUL_STOPWORDS = new Set(['그리고', '하지만', '그러나', '그', '이', '저', '것', '수', '등', '및']);
+
+// Korean particles and verb endings, longest first. One-syllable ones are only
+// stripped from longer words, since they are often part of the word itself.
+const HANGUL_SUFFIXES = [
+	'했습니다', '합니다', '입니다', '에서는', '에게서', '으로는',
+	'에서', '에게', '한테', '께서', '으로', '까지', '부터', '보다', '처럼', '만큼', '이나',
+	'하는', '하고', '해서', '했다', '한다', '이다',
+	'은', '는', '이', '가', '을', '를', '에', '의', '와', '과', '로', '도', '만'
+];
+
+// Common concepts that might appear across languages, mapped to a shared concept term
+export const DEFAULT_CONCEPTS: Record<string, string[]> = {
+	'time': ['时间', '时', '日期', '時間'],
+	'day': ['天', '日', '日子'],
+	'person': ['人', '人员', '个人'],
+	'work': ['工作', '职业', '任务', '仕事'],
+	'book': ['书', '书籍'],
+	'food': ['食物', '食品', '餐'],
+	'water': ['水', '水分'],
+	'house': ['房子', '家', '住宅'],
+	'computer': ['电脑', '计算机', 'コンピューター', 'パソコン'],
+	'friend': ['朋友', '伙伴', '友達'],
+	'family': ['家庭', '家人', '家族'],
+	'money': ['钱', '金钱', '资金', 'お金'],
+	'school': ['学校', '校园'],
+	'business': ['商业', '生意', '企业', 'ビジネス'],
+	'city': ['城市', '市', '都市'],
+	'country': ['国家', '国'],
+	'world': ['世界', '全球'],
+	'health': ['健康', '保健'],
+	'history': ['历史', '史', '歴史'],
+	'future': ['未来', '将来'],
+	'technology': ['技术', '科技', '技術'],
+	'science': ['科学', '学科'],
+	'art': ['艺术', '美术', '芸術'],
+	'music': ['音乐', '曲', '音楽'],
+	'film': ['电影', '影片', '映画'],
+	'love': ['爱', '爱情', '愛'],
+	'problem': ['问题', '难题', '問題'],
+	'solution': ['解决方案', '解决', '方案', '解決'],
+	'idea': ['想法', '主意', '概念', 'アイデア'],
+	'information': ['信息', '资讯', '情報']
+};
+
+// Read a concept map written one concept per line, e.g. `meeting: 会议, 会議, 회의`.
+// Blank lines, headings and list markers are ignored.
+export function parseConceptMap(text: string): Record<string, string[]> {
+	const concepts: Record<string, string[]> = {};
+	for (const rawLine of text.split('\n')) {
+		const line = rawLine.replace(/^\s*(?:[-*+]\s+)?/, '').trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const separator = line.search(/[:=：]/);
+		if (separator <= 0) continue;
+		const concept = line.slice(0, separator).trim().toLowerCase();
+		const terms = line.slice(separator + 1)
+			.split(/[,，、]/)
+			.map(term => term.trim())
+			.filter(term => term.length > 0);
+		if (concept && terms.length > 0) {
+			concepts[concept] = [...(concepts[concept] ?? []), ...terms];
+		}
+	}
+	return concepts;
+}
+
+// 32-bit FNV-1a hash
+export function hashString(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+export class Tokenizer {
+	// Changes whenever the same text would produce different terms
+	readonly signature: string;
+	// Known Chinese and Japanese words, for dictionary segmentation
+	private dictionary: Set<string> = new Set();
+	private maxWordLength = 0;
+	// Term (or pair of terms) to the concept terms it expresses
+	private conceptTerms: Map<string, string[]> = new Map();
+
+	constructor(concepts: Record<string, string[]> = DEFAULT_CONCEPTS) {
+		const entries = Object.entries(concepts).sort(([a], [b]) => a.localeCompare(b));
+		this.signature = `${TOKENIZER_VERSION}:${hashString(JSON.stringify(entries)).toString(16)}`;
+
+		// Dictionary words first, so that concept entries are segmented like note text
+		for (const [concept, translations] of entries) {
+			for (const word of [concept, ...translations]) {
+				const normalized = word.normalize('NFKC').toLowerCase();
+				if (normalized.length >= 2 && HAN_REGEX.test(normalized)) {
+					this.dictionary.add(normalized);
+					this.maxWordLength = Math.max(this.maxWordLength, normalized.length);
+				}
+			}
+		}
+
+		for (const [concept, translations] of entries) {
+			const conceptTerm = CONCEPT_PREFIX + concept;
+			for (const word of [concept, ...translations]) {
+				const terms = this.tokenize(word);
+				// Only single words and two-word phrases can be recognised
+				if (terms.length === 0 || terms.length > 2) continue;
+				const key = terms.join(BIGRAM_SEPARATOR);
+				const existing = this.conceptTerms.get(key) ?? [];
+				if (!existing.includes(conceptTerm)) {
+					this.conceptTerms.set(key, [...existing, conceptTerm]);
+				}
+			}
+		}
+	}
+
+	// Terms of the text in reading order, without stopwords
+	tokenize(text: string): string[] {
+		return this.segment(text).map(token => token.term);
+	}
+
+	// Count the terms of a text: tokens, pairs of adjacent words and concept terms
+	termFrequencies(text: string): Map<string, number> {
+		const tokens = this.segment(text);
+		const counts: Map<string, number> = new Map();
+		const add = (term: string) => counts.set(term, (counts.get(term) ?? 0) + 1);
+
+		for (let i = 0; i < tokens.length; i++) {
+			const term = tokens[i].term;
+			add(term);
+			for (const concept of this.conceptTerms.get(term) ?? []) {
+				add(concept);
+			}
+
+			// Character pairs already capture word order in Chinese and Japanese
+			const previous = tokens[i - 1];
+			if (previous && previous.script === 'word' && tokens[i].script === 'word') {
+				const phrase = previous.term + BIGRAM_SEPARATOR + term;
+				add(phrase);
+				for (const concept of this.conceptTerms.get(phrase) ?? []) {
+					add(concept);
+				}
+			}
+		}
+		return counts;
+	}
+
+	// The first word in the text behind each stemmed term, for showing terms to the user
+	surfaceForms(text: string): Map<string, string> {
+		const forms: Map<string, string> = new Map();
+		const normalized = text.normalize('NFKC').toLowerCase();
+
+		RUN_REGEX.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = RUN_REGEX.exec(normalized)) !== null) {
+			if (this.scriptOf(match[0]) !== 'word') continue;
+			const tokens: Token[] = [];
+			this.addWord(match[0], tokens);
+			if (tokens.length > 0 && !forms.has(tokens[0].term)) {
+				forms.set(tokens[0].term, match[0]);
+			}
+		}
+		return forms;
+	}
+
+	// A term as the user would write it: stems become words from `forms`, word
+	// pairs are rejoined and concept terms show their concept
+	displayTerm(term: string, forms: Map<string, string>): string {
+		if (term.startsWith(CONCEPT_PREFIX)) return term.slice(CONCEPT_PREFIX.length);
+		return term.split(BIGRAM_SEPARATOR).map(part => forms.get(part) ?? part).join(' ');
+	}
+
+	private segment(text: string): Token[] {
+		const normalized = text.normalize('NFKC').toLowerCase();
+		const tokens: Token[] = [];
+		let previousScript: Script | null = null;
+		let previousRunEnd = -1;
+
+		RUN_REGEX.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = RUN_REGEX.exec(normalized)) !== null) {
+			const run = match[0];
+			const script = this.scriptOf(run);
+			// Hiragana written straight after kanji is an inflection or particle
+			const followsHan = previousScript === 'han' && previousRunEnd === match.index;
+
+			switch (script) {
+				case 'word':
+					this.addWord(run, tokens);
+					break;
+				case 'han':
+					this.segmentHan(run, tokens);
+					break;
+				case 'hiragana':
+					if (!followsHan && run.length >= MIN_WORD_LENGTH && !HIRAGANA_STOPWORDS.has(run)) {
+						tokens.push({ term: run, script });
+					}
+					break;
+				case 'katakana':
+					if (run.length >= MIN_WORD_LENGTH) {
+						tokens.push({ term: run, script });
+					}
+					break;
+				case 'hangul':
+					this.addHangulWord(run, tokens);
+					break;
+			}
+
+			previousScript = script;
+			previousRunEnd = match.index + run.length;
+		}
+		return tokens;
+	}
+
+	private scriptOf(run: string): Script {
+		if (HAN_REGEX.test(run)) return 'han';
+		if (HIRAGANA_REGEX.test(run)) return 'hiragana';
+		if (KATAKANA_REGEX.test(run)) return 'katakana';
+		if (HANGUL_REGEX.test(run)) return 'hangul';
+		return 'word';
+	}
+
+	private addWord(run: string, tokens: Token[]) {
+		// "Café" and "cafe" are the same term
+		const word = run.normalize('NFD').replace(COMBINING_MARKS_REGEX, '');
+		if (word.length < MIN_WORD_LENGTH || ENGLISH_STOPWORDS.has(word)) return;
+		tokens.push({ term: stem(word), script: 'word' });
+	}
+
+	// Forward maximum matching against the dictionary, with overlapping
+	// character pairs for stretches it does not cover
+	private segmentHan(run: string, tokens: Token[]) {
+		let pending = '';
+		const flush = () => {
+			if (pending.length === 1) {
+				tokens.push({ term: pending, script: 'han' });
+			}
+			for (let i = 0; i + 1 < pending.length; i++) {
+				tokens.push({ term: pending.slice(i, i + 2), script: 'han' });
+			}
+			pending = '';
+		};
+
+		let i = 0;
+		while (i < run.length) {
+			let word = '';
+			for (let length = Math.min(this.maxWordLength, run.length - i); length >= 2; length--) {
+				const candidate = run.slice(i, i + length);
+				if (this.dictionary.has(candidate)) {
+					word = candidate;
+					break;
+				}
+			}
+
+			if (word) {
+				flush();
+				tokens.push({ term: word, script: 'han' });
+				i += word.length;
+			} else if (HAN_STOPWORDS.has(run[i])) {
+				flush();
+				i++;
+			} else {
+				pending += run[i];
+				i++;
+			}
+		}
+		flush();
+	}
+
+	private addHangulWord(run: string, tokens: Token[]) {
+		let word = run;
+		for (const suffix of HANGUL_SUFFIXES) {
+			const minStem = suffix.length === 1 ? 2 : 1;
+			if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+				word = word.slice(0, -suffix.length);
+				break;
+			}
+		}
+		if (!HANGUL_STOPWORDS.has(word)) {
+			tokens.push({ term: word, script: 'hangul' });
+		}
+	}
+}
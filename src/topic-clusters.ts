@@ -0,0 +1,241 @@
+import { App, Modal, Notice, TFile, normalizePath } from 'obsidian';
+import type ThreadOfAriadne from '../main';
+import { cosineSimilarity } from './similarity';
+import { distinctiveTerms, kMeans, suggestClusterCount } from './clustering';
+import { overlap } from './ranking';
+import { displayName, readFileText } from './extractors';
+
+// Groups the indexed notes into topics and writes a map-of-content note per
+// topic. Cluster notes carry the `ariadne-cluster` property; on re-runs each new
+// cluster updates the existing note whose members it shares most, and only the
+// generated block between the markers is replaced, so anything written around
+// it is kept.
+
+export const CLUSTER_PROPERTY = 'ariadne-cluster';
+const BLOCK_START = '%% ariadne-cluster:start %%';
+const BLOCK_END = '%% ariadne-cluster:end %%';
+
+const CLUSTER_TERMS = 8;
+const LABEL_TERMS = 3;
+// Notes read per cluster to show stemmed terms as words
+const SURFACE_SAMPLE = 3;
+const MIN_NOTES = 4;
+// Share of members an existing cluster note must have in common with a new cluster to be reused
+const MIN_MEMBER_OVERLAP = 0.2;
+const PREVIEW_MEMBERS = 5;
+
+export interface TopicCluster {
+	files: TFile[]; // Most typical notes first
+	terms: string[]; // Most distinctive terms first
+}
+
+export function isClusterNote(app: App, file: TFile): boolean {
+	return !!app.metadataCache.getFileCache(file)?.frontmatter?.[CLUSTER_PROPERTY];
+}
+
+export function clusterLabel(cluster: TopicCluster): string {
+	const label = cluster.terms.slice(0, LABEL_TERMS).join(', ');
+	return label ? label.charAt(0).toUpperCase() + label.slice(1) : 'Untitled topic';
+}
+
+// Cluster the indexed notes by their embeddings. `count` of 0 picks a number of
+// clusters from the size of the vault.
+export async function findTopicClusters(plugin: ThreadOfAriadne, count: number): Promise<TopicCluster[]> {
+	const { app, lexical } = plugin;
+	const files: TFile[] = [];
+	const vectors: Float32Array[] = [];
+	for (const [path, item] of plugin.store.entries()) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || plugin.shouldIgnoreFile(file) || isClusterNote(app, file)) continue;
+		files.push(file);
+		vectors.push(item.embedding);
+	}
+	if (files.length < MIN_NOTES) return [];
+
+	const k = count > 0 ? count : suggestClusterCount(files.length);
+	const { assignments, centroids } = await kMeans(vectors, k);
+
+	const members: { file: TFile; similarity: number }[][] = centroids.map(() => []);
+	assignments.forEach((cluster, i) => {
+		members[cluster].push({ file: files[i], similarity: cosineSimilarity(vectors[i], centroids[cluster]) });
+	});
+
+	// Term counts per cluster, and the number of member notes containing each term
+	const counts = members.map(() => new Map<string, number>());
+	const spread = members.map(() => new Map<string, number>());
+	members.forEach((cluster, c) => {
+		for (const { file } of cluster) {
+			lexical.termsOf(file.path)?.forEach((count, term) => {
+				counts[c].set(term, (counts[c].get(term) ?? 0) + count);
+				spread[c].set(term, (spread[c].get(term) ?? 0) + 1);
+			});
+		}
+	});
+	const terms = distinctiveTerms(counts, spread, members.map(cluster => cluster.length), CLUSTER_TERMS);
+
+	const clusters: TopicCluster[] = [];
+	for (let c = 0; c < members.length; c++) {
+		if (members[c].length === 0) continue;
+		const sorted = members[c].sort((a, b) => b.similarity - a.similarity).map(({ file }) => file);
+
+		// Show terms the way the most typical notes write them
+		const forms: Map<string, string> = new Map();
+		for (const file of sorted.slice(0, SURFACE_SAMPLE)) {
+			lexical.tokenizer.surfaceForms(await readFileText(app, file)).forEach((word, term) => {
+				if (!forms.has(term)) forms.set(term, word);
+			});
+		}
+		const display: string[] = [];
+		for (const term of terms[c]) {
+			const text = lexical.tokenizer.displayTerm(term, forms);
+			if (!display.includes(text)) display.push(text);
+		}
+		clusters.push({ files: sorted, terms: display });
+	}
+	return clusters.sort((a, b) => b.files.length - a.files.length);
+}
+
+function clusterBlock(app: App, cluster: TopicCluster, sourcePath: string): string {
+	return [
+		BLOCK_START,
+		`Key terms: ${cluster.terms.join(', ')}`,
+		'',
+		...cluster.files.map(file => `- ${app.fileManager.generateMarkdownLink(file, sourcePath)}`),
+		BLOCK_END
+	].join('\n');
+}
+
+// Replace the generated block, or add one at the end if it was removed
+function replaceBlock(content: string, block: string): string {
+	const start = content.indexOf(BLOCK_START);
+	const end = content.indexOf(BLOCK_END, start);
+	if (start === -1 || end === -1) {
+		return `${content.replace(/\s*$/, '')}\n\n${block}\n`;
+	}
+	return content.slice(0, start) + block + content.slice(end + BLOCK_END.length);
+}
+
+// A file name for a new cluster note that is not taken yet
+function availablePath(app: App, folder: string, label: string): string {
+	const name = label.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Topic';
+	let path = normalizePath(`${folder}/${name}.md`);
+	for (let i = 2; app.vault.getAbstractFileByPath(path); i++) {
+		path = normalizePath(`${folder}/${name} ${i}.md`);
+	}
+	return path;
+}
+
+// Write a map-of-content note per cluster into `folder`, reusing the cluster
+// notes of earlier runs. Notes whose cluster no longer exists are marked as such.
+export async function writeClusterNotes(plugin: ThreadOfAriadne, clusters: TopicCluster[], folder: string): Promise<{ created: number; updated: number; retired: number }> {
+	const { app } = plugin;
+	const existing = app.vault.getMarkdownFiles()
+		.filter(file => isClusterNote(app, file))
+		.map(file => ({ file, members: new Set(Object.keys(app.metadataCache.resolvedLinks[file.path] ?? {})) }));
+
+	// Pair each cluster with the existing note sharing the most members, best pairs first
+	const pairs: { cluster: number; note: number; score: number }[] = [];
+	clusters.forEach((cluster, c) => {
+		const paths = new Set(cluster.files.map(file => file.path));
+		existing.forEach((note, n) => {
+			const score = overlap(paths, note.members);
+			if (score >= MIN_MEMBER_OVERLAP) pairs.push({ cluster: c, note: n, score });
+		});
+	});
+	pairs.sort((a, b) => b.score - a.score);
+	const noteOf: Map<number, TFile> = new Map();
+	const usedNotes: Set<number> = new Set();
+	for (const { cluster, note } of pairs) {
+		if (noteOf.has(cluster) || usedNotes.has(note)) continue;
+		noteOf.set(cluster, existing[note].file);
+		usedNotes.add(note);
+	}
+
+	let created = 0;
+	let updated = 0;
+	let retired = 0;
+	for (let c = 0; c < clusters.length; c++) {
+		const note = noteOf.get(c);
+		if (note) {
+			await app.vault.process(note, content => replaceBlock(content, clusterBlock(app, clusters[c], note.path)));
+			updated++;
+			continue;
+		}
+
+		const folderPath = normalizePath(folder);
+		if (!app.vault.getAbstractFileByPath(folderPath)) {
+			await app.vault.createFolder(folderPath);
+		}
+		const label = clusterLabel(clusters[c]);
+		const path = availablePath(app, folderPath, label);
+		await app.vault.create(path, `---\n${CLUSTER_PROPERTY}: true\n---\n# ${label}\n\n${clusterBlock(app, clusters[c], path)}\n`);
+		created++;
+	}
+
+	for (let n = 0; n < existing.length; n++) {
+		if (usedNotes.has(n)) continue;
+		await app.vault.process(existing[n].file, content => replaceBlock(content, `${BLOCK_START}\nThis topic no longer forms a cluster.\n${BLOCK_END}`));
+		retired++;
+	}
+	return { created, updated, retired };
+}
+
+// Overview of the clusters found, with the option to write them out as notes
+export class TopicClusterModal extends Modal {
+	plugin: ThreadOfAriadne;
+	clusters: TopicCluster[];
+
+	constructor(app: App, plugin: ThreadOfAriadne, clusters: TopicCluster[]) {
+		super(app);
+		this.plugin = plugin;
+		this.clusters = clusters;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const noteCount = this.clusters.reduce((sum, cluster) => sum + cluster.files.length, 0);
+		this.titleEl.setText(`${this.clusters.length} topics in ${noteCount} notes`);
+
+		const list = contentEl.createDiv({ cls: 'thread-of-ariadne-clusters' });
+		for (const cluster of this.clusters) {
+			const item = list.createDiv({ cls: 'thread-of-ariadne-cluster' });
+			item.createDiv({ cls: 'thread-of-ariadne-cluster-label', text: `${clusterLabel(cluster)} (${cluster.files.length})` });
+			item.createDiv({ cls: 'thread-of-ariadne-cluster-terms', text: cluster.terms.join(', ') });
+
+			const members = item.createDiv({ cls: 'thread-of-ariadne-cluster-members' });
+			for (const file of cluster.files.slice(0, PREVIEW_MEMBERS)) {
+				const link = members.createEl('a', { text: displayName(file) });
+				link.addEventListener('click', (e) => {
+					e.preventDefault();
+					this.app.workspace.openLinkText(file.path, '', false);
+					this.close();
+				});
+			}
+			if (cluster.files.length > PREVIEW_MEMBERS) {
+				members.createSpan({ text: `and ${cluster.files.length - PREVIEW_MEMBERS} more` });
+			}
+		}
+
+		const folder = this.plugin.settings.clusterFolder;
+		const writeButton = contentEl.createEl('button', {
+			cls: 'mod-cta',
+			text: `Write map-of-content notes to "${folder}"`
+		});
+		writeButton.addEventListener('click', async () => {
+			writeButton.disabled = true;
+			try {
+				const { created, updated, retired } = await writeClusterNotes(this.plugin, this.clusters, folder);
+				new Notice(`Thread of Ariadne: ${created} topic notes created, ${updated} updated, ${retired} retired`);
+				this.close();
+			} catch (error) {
+				console.error('Thread of Ariadne: Error writing topic notes', error);
+				new Notice('Thread of Ariadne: Error writing topic notes');
+				writeButton.disabled = false;
+			}
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}